@@ -0,0 +1,82 @@
+import { SERVER_CONFIG_ERROR_CODE, isProviderError } from '../src/providers/errors';
+import type { GlossaryTerm, TargetLanguageMeta } from '../src/providers/types';
+
+// Helpers shared by the edge functions (files starting with "_" are not deployed as routes).
+
+// 500 the browser-side proxy provider recognizes as a configuration problem, so it does not retry
+const configErrorResponse = (detail: string) =>
+    new Response(`${SERVER_CONFIG_ERROR_CODE}: Server configuration error: ${detail}`, { status: 500 });
+
+// Callers must send PROXY_ACCESS_TOKEN as a bearer token. Without it the proxy would spend the shared key for
+// anyone who finds the URL, so a deployment that lacks the token refuses every request.
+export const checkAccess = (request: Request): Response | null => {
+    const token = process.env.PROXY_ACCESS_TOKEN;
+    if (!token) {
+        return configErrorResponse('PROXY_ACCESS_TOKEN is not set');
+    }
+
+    const header = request.headers.get('Authorization') || '';
+    if (header !== `Bearer ${token}`) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+    return null;
+};
+
+const MAX_TARGETS = 10;
+const MAX_GLOSSARY_TERMS = 500;
+
+const REGISTERS = ['formal', 'informal', 'neutral'];
+
+const isValidTarget = (value: any): value is TargetLanguageMeta =>
+    typeof value?.code === 'string' &&
+    value.code.length > 0 &&
+    typeof value?.name === 'string' &&
+    (value.register === undefined || REGISTERS.includes(value.register));
+
+const isValidGlossaryTerm = (value: any): value is GlossaryTerm =>
+    typeof value?.targetLang === 'string' &&
+    typeof value?.sourceTerm === 'string' &&
+    typeof value?.targetTerm === 'string' &&
+    (value.sourceLang === null || typeof value.sourceLang === 'string');
+
+// 400 response for malformed targets or glossary in a translation request body, null if both are fine
+export const checkTargetsAndGlossary = (targets: unknown, glossary: unknown): Response | null => {
+    if (!Array.isArray(targets) || targets.length === 0 || targets.length > MAX_TARGETS || !targets.every(isValidTarget)) {
+        return new Response(`targets must be 1 to ${MAX_TARGETS} entries of { code, name, register? }`, { status: 400 });
+    }
+    if (!Array.isArray(glossary) || glossary.length > MAX_GLOSSARY_TERMS || !glossary.every(isValidGlossaryTerm)) {
+        return new Response(`glossary must be at most ${MAX_GLOSSARY_TERMS} entries of { sourceLang, targetLang, sourceTerm, targetTerm }`, { status: 400 });
+    }
+    return null;
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+// Passes upstream failures on with a status the browser-side proxy provider maps back to the same error kind.
+// A rejected server key is a configuration problem, not the caller's: it must not look like a wrong access token.
+export const upstreamErrorResponse = (error: unknown) => {
+    if (!isProviderError(error)) {
+        return new Response(`Server error: ${error}`, { status: 500 });
+    }
+
+    switch (error.kind) {
+        case 'rate-limited': {
+            const headers: Record<string, string> = {};
+            if (error.retryAfterMs !== null) headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+            return new Response(error.message, { status: 429, headers });
+        }
+        case 'timeout':
+            return new Response(error.message, { status: 504 });
+        case 'invalid-key':
+            return configErrorResponse('Mistral rejected the server key');
+        case 'schema-rejected':
+        case 'request-rejected':
+            return new Response(error.message, { status: 400 });
+        default:
+            return new Response(error.message, { status: 502 });
+    }
+};
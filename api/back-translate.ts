@@ -0,0 +1,65 @@
+import { checkAccess, jsonResponse, upstreamErrorResponse } from './_access';
+import { buildBackTranslateBody, readBackTranslateResult, requestChatCompletion } from '../src/providers/chatCompletions';
+import { MISTRAL_CHAT_COMPLETIONS_URL, MISTRAL_TEXT_MODEL } from '../src/providers/mistral';
+import type { TargetLanguageMeta } from '../src/providers/types';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Same input/output as TranslationProvider.backTranslate: translations back into the source language
+interface BackTranslateRequest {
+    translations: Record<string, string>;
+    source: TargetLanguageMeta;
+}
+
+const MAX_TRANSLATIONS = 10;
+const MAX_TEXT_LENGTH = 20_000;
+
+const isValidTranslations = (value: unknown): value is Record<string, string> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const entries = Object.entries(value);
+    return (
+        entries.length > 0 &&
+        entries.length <= MAX_TRANSLATIONS &&
+        entries.every(([code, text]) => code.length > 0 && typeof text === 'string' && text.length <= MAX_TEXT_LENGTH)
+    );
+};
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+    }
+
+    const denied = checkAccess(request);
+    if (denied) return denied;
+
+    try {
+        const { translations, source }: BackTranslateRequest = await request.json();
+
+        if (!isValidTranslations(translations)) {
+            return new Response(`translations must map 1 to ${MAX_TRANSLATIONS} language codes to texts`, { status: 400 });
+        }
+        if (typeof source?.code !== 'string' || !source.code || typeof source?.name !== 'string') {
+            return new Response('source must be { code, name }', { status: 400 });
+        }
+
+        const apiKey = process.env.MISTRAL_API_KEY;
+        if (!apiKey) {
+            return new Response('Server configuration error', { status: 500 });
+        }
+
+        const label = 'Mistral';
+        const model = process.env.MISTRAL_TEXT_MODEL || MISTRAL_TEXT_MODEL;
+        const data = await requestChatCompletion({
+            endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+            apiKey,
+            label,
+            body: buildBackTranslateBody(model, { translations, source: { code: source.code, name: source.name } }),
+        });
+
+        return jsonResponse({ ...readBackTranslateResult(data, Object.keys(translations), label), model });
+    } catch (error) {
+        return upstreamErrorResponse(error);
+    }
+}
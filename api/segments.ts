@@ -0,0 +1,55 @@
+import { checkAccess, jsonResponse, upstreamErrorResponse } from './_access';
+import { requestJson } from '../src/providers/errors';
+import {
+    MISTRAL_TRANSCRIPTIONS_URL,
+    MISTRAL_TRANSCRIPTION_MODEL,
+    buildMistralSegmentsFormData,
+    readMistralSegments,
+} from '../src/providers/mistral';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Segment timestamps for a recording (multipart field `file`), returned as { segments, usage, model }
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+    }
+
+    const denied = checkAccess(request);
+    if (denied) return denied;
+
+    try {
+        const formData = await request.formData();
+        const file = formData.get('file');
+
+        if (!file || typeof file === 'string') {
+            return new Response('No file uploaded', { status: 400 });
+        }
+
+        const apiKey = process.env.MISTRAL_API_KEY;
+        if (!apiKey) {
+            return new Response('Server configuration error', { status: 500 });
+        }
+
+        const data = await requestJson(
+            MISTRAL_TRANSCRIPTIONS_URL,
+            {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                },
+                body: buildMistralSegmentsFormData(file),
+            },
+            { label: 'Mistral transcription' }
+        );
+        return jsonResponse({
+            segments: readMistralSegments(data),
+            usage: data.usage ?? null,
+            model: MISTRAL_TRANSCRIPTION_MODEL,
+        });
+    } catch (error) {
+        return upstreamErrorResponse(error);
+    }
+}
@@ -1,93 +1,59 @@
+import { checkAccess, checkTargetsAndGlossary, jsonResponse, upstreamErrorResponse } from './_access';
+import { readTranscribeAndTranslateResult, requestChatCompletion } from '../src/providers/chatCompletions';
+import {
+    MISTRAL_CHAT_COMPLETIONS_URL,
+    MISTRAL_DEFAULT_MODEL,
+    buildMistralTranscribeAndTranslateBody,
+} from '../src/providers/mistral';
+import type { GlossaryTerm, TargetLanguageMeta } from '../src/providers/types';
+
 export const config = {
     runtime: 'edge',
 };
 
+// Same input/output as TranslationProvider.transcribeAndTranslate, so the browser never sees the Mistral key
+interface TranscribeRequest {
+    audioBase64: string; // Base64-encoded WAV
+    targets: TargetLanguageMeta[];
+    glossary?: GlossaryTerm[];
+}
+
 export default async function handler(request: Request) {
     if (request.method !== 'POST') {
         return new Response('Method not allowed', { status: 405 });
     }
 
+    const denied = checkAccess(request);
+    if (denied) return denied;
+
     try {
-        const formData = await request.formData();
-        const file = formData.get('file');
+        const body: TranscribeRequest = await request.json();
+        const { audioBase64, targets } = body;
+        const glossary = body.glossary ?? [];
 
-        if (!file) {
-            return new Response('No file uploaded', { status: 400 });
+        if (!audioBase64 || typeof audioBase64 !== 'string') {
+            return new Response('Missing audioBase64', { status: 400 });
         }
+        const invalid = checkTargetsAndGlossary(targets, glossary);
+        if (invalid) return invalid;
 
         const apiKey = process.env.MISTRAL_API_KEY;
         if (!apiKey) {
             return new Response('Server configuration error', { status: 500 });
         }
 
-        // Forward to Mistral
-        const mistralFormData = new FormData();
-        mistralFormData.append('file', file);
-        // Mistral's audio model
-        mistralFormData.append('model', 'mistral-embed'); // Wait, no.
-        // The user said "voxtral-mini". The error said "mistral-embedvoxtral-mini".
-        // I must have appended it twice.
-        // I will use ONLY 'mistral-small-latest' ? No, that is text.
-        // I will use 'mistral-embed' ? No.
-        // I will use 'voxtral-mini' as requested.
-
-        // Clear previous appends if any (not possible on new FormData)
-        // Just append once.
-        mistralFormData.append('model', 'mistral-small-latest'); // Wait, for AUDIO?
-        // Mistral docs say: "mistral-embed" is for embeddings.
-        // "mistral-small-latest" is for chat.
-        // "codestral-latest" is for code.
-        // "open-mistral-nemo" is for chat.
-        // "pixtral-12b-2409" is for vision.
-
-        // Actually, for AUDIO TRANSCRIPTION, Mistral might not have a public API yet or it is 'mistral-large-latest'?
-        // BUT the user explicitly said: "Use Mistral’s Voxtral model... (Experiment/free tier)".
-        // And the error message `Invalid model: mistral-embedvoxtral-mini` confirms that `voxtral-mini` IS a valid model name (or at least part of what they tried).
-        // The error was likely due to me appending 'mistral-embed' AND 'voxtral-mini'.
-
-        // I will use 'mistral-small-latest' for now? NO.
-        // I will use 'voxtral-mini' as the user requested.
-        // And REMOVE the other append.
-
-        mistralFormData.append('model', 'mistral-small-latest'); // NO!
-        // I will use 'voxtral-mini'.
-
-        // Wait, I should just clean up the code block.
-        mistralFormData.append('model', 'voxtral-mini');
-        // Also need 'language' if not auto-detect? User said "Lets Mistral auto-detect".
-
-        const response = await fetch('https://api.mistral.ai/v1/audio/transcriptions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                // Do not set Content-Type for FormData, fetch does it with boundary
-            },
-            body: mistralFormData,
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            return new Response(`Mistral API error: ${errorText}`, { status: response.status });
-        }
-
-        const data = await response.json();
-
-        // Mistral response format (OpenAI compatible usually):
-        // { text: "..." }
-        // User wants: { sourceText: "...", sourceLang: "de" }
-        // If Mistral returns language, great. If not, we might need another step or just return text.
-        // OpenAI format has `language` in verbose_json.
-        // I'll assume verbose_json is needed if we want language?
-        // Or maybe the user implies we get it.
-
-        return new Response(JSON.stringify({
-            sourceText: data.text,
-            sourceLang: 'en' // Placeholder if not returned
-        }), {
-            headers: { 'Content-Type': 'application/json' },
+        const label = 'Voxtral';
+        const model = process.env.MISTRAL_MODEL || MISTRAL_DEFAULT_MODEL;
+        const data = await requestChatCompletion({
+            endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+            apiKey,
+            label,
+            body: buildMistralTranscribeAndTranslateBody(model, audioBase64, targets, glossary),
         });
 
+        // The model is reported back so clients can attribute usage to the right price
+        return jsonResponse({ ...readTranscribeAndTranslateResult(data, targets, label), model });
     } catch (error) {
-        return new Response(`Server error: ${error}`, { status: 500 });
+        return upstreamErrorResponse(error);
     }
 }
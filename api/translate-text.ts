@@ -0,0 +1,60 @@
+import { checkAccess, checkTargetsAndGlossary, jsonResponse, upstreamErrorResponse } from './_access';
+import { buildTranslateTextBody, readTranscribeAndTranslateResult, requestChatCompletion } from '../src/providers/chatCompletions';
+import { MISTRAL_CHAT_COMPLETIONS_URL, MISTRAL_TEXT_MODEL } from '../src/providers/mistral';
+import type { GlossaryTerm, TargetLanguageMeta } from '../src/providers/types';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Same input/output as TranslationProvider.translateText: typed or edited text into every target at once
+interface TranslateTextRequest {
+    sourceText: string;
+    sourceLanguage?: string;
+    targets: TargetLanguageMeta[];
+    glossary?: GlossaryTerm[];
+}
+
+const MAX_SOURCE_TEXT_LENGTH = 20_000;
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+    }
+
+    const denied = checkAccess(request);
+    if (denied) return denied;
+
+    try {
+        const body: TranslateTextRequest = await request.json();
+        const { sourceText, sourceLanguage, targets } = body;
+        const glossary = body.glossary ?? [];
+
+        if (!sourceText || typeof sourceText !== 'string' || sourceText.length > MAX_SOURCE_TEXT_LENGTH) {
+            return new Response(`sourceText must be 1 to ${MAX_SOURCE_TEXT_LENGTH} characters`, { status: 400 });
+        }
+        if (sourceLanguage !== undefined && typeof sourceLanguage !== 'string') {
+            return new Response('sourceLanguage must be a string', { status: 400 });
+        }
+        const invalid = checkTargetsAndGlossary(targets, glossary);
+        if (invalid) return invalid;
+
+        const apiKey = process.env.MISTRAL_API_KEY;
+        if (!apiKey) {
+            return new Response('Server configuration error', { status: 500 });
+        }
+
+        const label = 'Mistral';
+        const model = process.env.MISTRAL_TEXT_MODEL || MISTRAL_TEXT_MODEL;
+        const data = await requestChatCompletion({
+            endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+            apiKey,
+            label,
+            body: buildTranslateTextBody(model, { sourceText, sourceLanguage, targets, glossary }),
+        });
+
+        return jsonResponse({ ...readTranscribeAndTranslateResult(data, targets, label), model });
+    } catch (error) {
+        return upstreamErrorResponse(error);
+    }
+}
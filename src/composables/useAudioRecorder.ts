@@ -1,4 +1,18 @@
 import { ref, onUnmounted, onMounted } from 'vue';
+import { rmsDb } from '../utils/voiceActivity';
+
+// 'waiting': microphone open, no speech yet; 'speech': speech heard, stops after the configured silence
+export type HandsFreeState = 'off' | 'waiting' | 'speech';
+
+export interface HandsFreeOptions {
+    speechThresholdDb: number;
+    silenceStopSeconds: number;
+    onSilence: () => void; // Called once when speech is followed by enough silence; the caller stops the recording
+}
+
+const VAD_INTERVAL_MS = 50;
+const SPEECH_ONSET_MS = 200; // Level must stay above the threshold this long to count as speech
+const IDLE_RESTART_MS = 30_000; // While waiting, audio older than this is dropped so the blob stays small
 
 export function useAudioRecorder() {
     const isRecording = ref(false);
@@ -8,6 +22,7 @@ export function useAudioRecorder() {
     const transcript = ref('');
     const isSpeechRecognitionSupported = ref(false);
     const analyserNode = ref<AnalyserNode | null>(null);
+    const handsFreeState = ref<HandsFreeState>('off');
 
     let mediaRecorder: MediaRecorder | null = null;
     let chunks: Blob[] = [];
@@ -16,6 +31,8 @@ export function useAudioRecorder() {
     let source: MediaStreamAudioSourceNode | null = null;
     let animationFrame: number | null = null;
     let mimeType: string = '';
+    let vadAnalyser: AnalyserNode | null = null;
+    let vadTimer: ReturnType<typeof setInterval> | null = null;
 
     const checkPermission = async () => {
         try {
@@ -52,7 +69,94 @@ export function useAudioRecorder() {
         animationFrame = requestAnimationFrame(updateVolume);
     };
 
-    const startRecording = async () => {
+    const createRecorder = (stream: MediaStream) => {
+        mediaRecorder = new MediaRecorder(stream, { mimeType });
+        chunks = [];
+
+        mediaRecorder.ondataavailable = (e) => {
+            console.log('Data available:', e.data.size, 'bytes');
+            if (e.data.size > 0) {
+                chunks.push(e.data);
+            }
+        };
+
+        // Start with timeslice to ensure ondataavailable fires during recording
+        // This is critical for Safari/WebKit browsers
+        mediaRecorder.start(100); // Collect data every 100ms
+    };
+
+    // Drops what was recorded so far by starting a fresh recorder on the same stream
+    // (a recording cannot be cut at the front, its first chunk holds the container header)
+    const restartRecorder = () => {
+        if (!mediaRecorder || mediaRecorder.state === 'inactive') return;
+        const stream = mediaRecorder.stream;
+        mediaRecorder.ondataavailable = null;
+        mediaRecorder.onstop = null;
+        mediaRecorder.stop();
+        createRecorder(stream);
+    };
+
+    const stopVoiceActivity = () => {
+        if (vadTimer) clearInterval(vadTimer);
+        vadTimer = null;
+        if (vadAnalyser) vadAnalyser.disconnect();
+        vadAnalyser = null;
+        handsFreeState.value = 'off';
+    };
+
+    // Samples the microphone level every VAD_INTERVAL_MS. Uses a timer rather than animation frames
+    // so detection keeps running (throttled) while the tab is in the background.
+    const startVoiceActivity = (options: HandsFreeOptions) => {
+        if (!audioContext || !source) return;
+        vadAnalyser = audioContext.createAnalyser();
+        vadAnalyser.fftSize = 2048;
+        source.connect(vadAnalyser);
+
+        const samples = new Float32Array(vadAnalyser.fftSize);
+        let waitingSince = performance.now();
+        let loudSince: number | null = null;
+        let quietSince: number | null = null;
+        handsFreeState.value = 'waiting';
+
+        vadTimer = setInterval(() => {
+            if (!vadAnalyser || !isRecording.value) return;
+            vadAnalyser.getFloatTimeDomainData(samples);
+            const now = performance.now();
+            const isLoud = rmsDb(samples) >= options.speechThresholdDb;
+
+            if (handsFreeState.value === 'waiting') {
+                if (isLoud) {
+                    loudSince ??= now;
+                    if (now - loudSince >= SPEECH_ONSET_MS) {
+                        console.log('Speech detected');
+                        handsFreeState.value = 'speech';
+                    }
+                } else {
+                    loudSince = null;
+                    if (now - waitingSince >= IDLE_RESTART_MS) {
+                        restartRecorder();
+                        waitingSince = now;
+                    }
+                }
+                return;
+            }
+
+            if (isLoud) {
+                quietSince = null;
+                return;
+            }
+            quietSince ??= now;
+            if (now - quietSince >= options.silenceStopSeconds * 1000) {
+                console.log('Silence detected, stopping hands-free recording');
+                stopVoiceActivity();
+                options.onSilence();
+            }
+        }, VAD_INTERVAL_MS);
+    };
+
+    // With `handsFree`, the microphone records from the start (silence is trimmed later),
+    // but `handsFreeState` only turns to 'speech' once someone talks.
+    const startRecording = async (handsFree?: HandsFreeOptions) => {
         try {
             console.log('Requesting microphone access...');
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -102,24 +206,12 @@ export function useAudioRecorder() {
 
             console.log('Using audio format:', mimeType);
 
-            mediaRecorder = new MediaRecorder(stream, { mimeType });
-            chunks = [];
-
-            mediaRecorder.ondataavailable = (e) => {
-                console.log('Data available:', e.data.size, 'bytes');
-                if (e.data.size > 0) {
-                    chunks.push(e.data);
-                }
-            };
-
-            // The onstop event handler is now set within stopRecording to resolve a Promise
-            // mediaRecorder.onstop = () => { ... }; // This block is removed as it's handled by stopRecording
-
-            // Start with timeslice to ensure ondataavailable fires during recording
-            // This is critical for Safari/WebKit browsers
-            mediaRecorder.start(100); // Collect data every 100ms
+            // The onstop event handler is set within stopRecording to resolve a Promise
+            createRecorder(stream);
             isRecording.value = true;
             console.log('MediaRecorder started with 100ms timeslice');
+
+            if (handsFree) startVoiceActivity(handsFree);
         } catch (error) {
             console.error('Error accessing microphone:', error);
             permissionStatus.value = 'denied';
@@ -143,6 +235,7 @@ export function useAudioRecorder() {
                 chunks = [];
 
                 // Cleanup Audio Context
+                stopVoiceActivity();
                 if (animationFrame) cancelAnimationFrame(animationFrame);
                 if (source) source.disconnect();
                 if (analyser) analyser.disconnect();
@@ -171,6 +264,7 @@ export function useAudioRecorder() {
     });
 
     onUnmounted(() => {
+        stopVoiceActivity();
         if (animationFrame) cancelAnimationFrame(animationFrame);
         if (audioContext) audioContext.close();
     });
@@ -192,6 +286,7 @@ export function useAudioRecorder() {
         transcript,
         isSpeechRecognitionSupported,
         analyserNode,
+        handsFreeState,
         startRecording,
         stopRecording,
         checkPermission,
@@ -0,0 +1,43 @@
+import { onMounted, onUnmounted, watch } from 'vue';
+import { useSettingsStore } from '../stores/settings';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Locks the passphrase-protected secrets after the configured minutes without user input.
+// Mounted once, in App.vue.
+export function useAutoLock() {
+    const settingsStore = useSettingsStore();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const clear = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+
+    const restart = () => {
+        clear();
+        const minutes = settingsStore.autoLockMinutes;
+        if (!settingsStore.hasPassphrase || settingsStore.isLocked || minutes <= 0) return;
+        timer = setTimeout(() => {
+            timer = null;
+            settingsStore.lock();
+        }, minutes * 60_000);
+    };
+
+    // Runs on every input event; only restarts the timer while one is running anyway
+    const handleActivity = () => {
+        if (timer) restart();
+    };
+
+    watch(() => [settingsStore.isLocked, settingsStore.hasPassphrase, settingsStore.autoLockMinutes], restart);
+
+    onMounted(() => {
+        for (const name of ACTIVITY_EVENTS) window.addEventListener(name, handleActivity, { passive: true });
+        restart();
+    });
+
+    onUnmounted(() => {
+        for (const name of ACTIVITY_EVENTS) window.removeEventListener(name, handleActivity);
+        clear();
+    });
+}
@@ -0,0 +1,81 @@
+import { ref } from 'vue';
+import { useSettingsStore } from '../stores/settings';
+import { isProviderError, type ProviderErrorKind } from '../providers/errors';
+
+// Keys of `ui.errors` in public/app-info.json
+type ErrorMessageKey =
+    | 'invalidKey'
+    | 'rateLimited'
+    | 'schemaRejected'
+    | 'requestRejected'
+    | 'server'
+    | 'network'
+    | 'timeout'
+    | 'malformedResponse'
+    | 'unknown';
+
+const MESSAGE_KEYS: Record<Exclude<ProviderErrorKind, 'cancelled'>, ErrorMessageKey> = {
+    'invalid-key': 'invalidKey',
+    'rate-limited': 'rateLimited',
+    'schema-rejected': 'schemaRejected',
+    'request-rejected': 'requestRejected',
+    server: 'server',
+    'server-config': 'server',
+    network: 'network',
+    timeout: 'timeout',
+    'malformed-response': 'malformedResponse',
+};
+
+// Used until app-info.json is loaded, or if it cannot be loaded at all
+const FALLBACK_MESSAGES: Record<ErrorMessageKey, string> = {
+    invalidKey: 'The API key was rejected. Check the key (or the proxy access token) in Settings.',
+    rateLimited: 'Rate limit or quota reached. Wait a moment and try again, or check your plan.',
+    schemaRejected: 'The server does not support the required response format. Try another model or server.',
+    requestRejected: 'The request was rejected. The recording may be too long or in an unsupported format.',
+    server: 'The translation service is having problems. Please try again later.',
+    network: 'Could not reach the translation service. Check your internet connection.',
+    timeout: 'The translation service took too long to answer. Please try again.',
+    malformedResponse: 'The translation service returned an unreadable answer. Please try again.',
+    unknown: 'Something went wrong. Please try again.',
+};
+
+// Shared by every component using the composable; app-info.json is fetched once
+const messagesByLang = ref<Record<string, Partial<Record<ErrorMessageKey, string>>>>({});
+let loadPromise: Promise<void> | null = null;
+
+const loadMessages = () => {
+    loadPromise ??= fetch('/app-info.json')
+        .then(response => response.json())
+        .then((data: Record<string, any>) => {
+            messagesByLang.value = Object.fromEntries(
+                Object.entries(data).map(([lang, info]) => [lang, info?.ui?.errors ?? {}])
+            );
+        })
+        .catch(error => {
+            console.error('Failed to load error messages from app-info.json:', error);
+        });
+    return loadPromise;
+};
+
+// Turns errors from translation requests into a message in the user's UI language
+// (the spoken language chosen in Settings, as for the other UI texts).
+export function useErrorMessages() {
+    const settingsStore = useSettingsStore();
+    void loadMessages();
+
+    const message = (key: ErrorMessageKey) => {
+        const lang = settingsStore.sourceLang || 'en';
+        return messagesByLang.value[lang]?.[key] ?? messagesByLang.value.en?.[key] ?? FALLBACK_MESSAGES[key];
+    };
+
+    // Errors that are not ProviderErrors (missing key, no target languages, ...) already carry a readable message
+    const describeError = (error: unknown): string => {
+        if (isProviderError(error)) {
+            return error.kind === 'cancelled' ? '' : message(MESSAGE_KEYS[error.kind]);
+        }
+        if (error instanceof Error && error.message) return error.message;
+        return message('unknown');
+    };
+
+    return { describeError };
+}
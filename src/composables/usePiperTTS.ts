@@ -0,0 +1,117 @@
+import { ref } from 'vue';
+import { db } from '../db/db';
+import { useSettingsStore } from '../stores/settings';
+
+export interface PiperVoice {
+    name: string; // e.g. "fr_FR-siwis-medium"
+    language: string; // e.g. "fr_FR"
+    quality?: string;
+    speakers?: number;
+}
+
+// Voice lists rarely change while the app is open; share one request per server URL.
+const voicesByServer = new Map<string, Promise<PiperVoice[]>>();
+
+const normalizeServerUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const cacheKey = (voice: string, text: string) => `piper|${voice}|${text}`;
+
+// Piper answers with WAV (about 44 KB per second of speech); beyond this many clips the oldest are dropped
+const MAX_CACHED_CLIPS = 200;
+
+const evictOldClips = async () => {
+    const excess = (await db.ttsCache.count()) - MAX_CACHED_CLIPS;
+    if (excess > 0) await db.ttsCache.orderBy('createdAt').limit(excess).delete();
+};
+
+// Piper uses underscores ("fr_FR"), the app uses BCP 47 ("fr-FR")
+export const piperVoiceMatchesLang = (voice: PiperVoice, lang: string) => {
+    const voiceLang = (voice.language || voice.name.split('-')[0] || '').replace('_', '-').toLowerCase();
+    const target = lang.toLowerCase();
+    const prefix = target.split('-')[0];
+    return voiceLang === target || voiceLang.split('-')[0] === prefix;
+};
+
+export function usePiperTTS() {
+    const settingsStore = useSettingsStore();
+    const isSynthesizing = ref(false);
+    const error = ref<string | null>(null);
+
+    const getServerUrl = () => normalizeServerUrl(settingsStore.piperServerUrl);
+
+    const isConfigured = () => getServerUrl().length > 0;
+
+    const listVoices = async (): Promise<PiperVoice[]> => {
+        const serverUrl = getServerUrl();
+        if (!serverUrl) return [];
+
+        let pending = voicesByServer.get(serverUrl);
+        if (!pending) {
+            pending = (async () => {
+                const res = await fetch(`${serverUrl}/voices`);
+                if (!res.ok) throw new Error(`Piper voices request failed: ${res.status}`);
+                const data = await res.json();
+                // Servers return either an array or an object keyed by voice name
+                const list: any[] = Array.isArray(data) ? data : Object.entries(data ?? {}).map(([name, info]) => ({ name, ...(info as object) }));
+                return list
+                    .filter(v => v && typeof v.name === 'string')
+                    .map(v => ({ name: v.name, language: v.language ?? v.name.split('-')[0], quality: v.quality, speakers: v.speakers }));
+            })();
+            voicesByServer.set(serverUrl, pending);
+            // Don't keep failures around; the user may start the server later
+            pending.catch(() => voicesByServer.delete(serverUrl));
+        }
+
+        try {
+            return await pending;
+        } catch (e) {
+            console.warn('Failed to load Piper voices:', e);
+            return [];
+        }
+    };
+
+    // Returns cached audio when the same text was already synthesized with the same voice
+    const synthesize = async (text: string, voice: string): Promise<Blob> => {
+        const trimmed = text.trim();
+        const key = cacheKey(voice, trimmed);
+
+        const cached = await db.ttsCache.get(key);
+        if (cached) return cached.audioBlob;
+
+        const serverUrl = getServerUrl();
+        if (!serverUrl) throw new Error('Piper server URL is not configured. Add it in Settings.');
+
+        isSynthesizing.value = true;
+        error.value = null;
+        try {
+            const res = await fetch(`${serverUrl}/`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text: trimmed, voice }),
+            });
+            if (!res.ok) throw new Error(`Piper synthesis failed: ${res.status} ${res.statusText}`);
+
+            const audioBlob = await res.blob();
+            try {
+                await db.ttsCache.put({ key, engine: 'piper', voice, text: trimmed, audioBlob, createdAt: Date.now() });
+                await evictOldClips();
+            } catch (e) {
+                console.warn('Failed to cache Piper audio:', e);
+            }
+            return audioBlob;
+        } catch (e: any) {
+            error.value = e.message;
+            throw e;
+        } finally {
+            isSynthesizing.value = false;
+        }
+    };
+
+    return {
+        isSynthesizing,
+        error,
+        isConfigured,
+        listVoices,
+        synthesize,
+    };
+}
@@ -1,3 +1,22 @@
+import type { TtsEngineId } from '../db/db';
+
+// How well Voxtral transcribes the language: high for the languages Mistral benchmarks it on,
+// medium for other widely spoken ones, low where little training audio exists
+export type SpeechRecognitionTier = 'high' | 'medium' | 'low';
+
+// Limited: translations into the language are noticeably weaker (small languages with little text online)
+export type TranslationSupport = 'full' | 'limited';
+
+export type WritingScript = 'Latin' | 'Cyrillic' | 'Greek' | 'Arabic' | 'Hebrew' | 'Devanagari' | 'Han' | 'Japanese' | 'Hangul';
+
+export interface LanguageCapabilities {
+  speechRecognition: SpeechRecognitionTier;
+  translation: TranslationSupport;
+  browserVoice: boolean; // Common browsers and operating systems ship a speech synthesis voice (still device-dependent)
+  piperVoices: string[]; // Locales with published Piper voices (e.g. "en_GB"); other regions fall back to these
+  script: WritingScript;
+}
+
 export interface Language {
   code: string; // ISO 639-1 + ISO 3166-1 (e.g., "en-US", "de-DE")
   displayCode: string; // 2-letter code for display (e.g., "en", "de")
@@ -6,9 +25,10 @@ export interface Language {
   flag: string; // Emoji flag
   speechCode: string; // Code for SpeechRecognition API
   isRTL?: boolean; // Right-to-left text direction (for Arabic, Hebrew, etc.)
+  capabilities: LanguageCapabilities;
 }
 
-const languageList: Language[] = [
+const languageList: Omit<Language, 'capabilities'>[] = [
   // English (not EU)
   { code: 'en-US', displayCode: 'en', name: 'English', nativeName: 'English', flag: '🇺🇸', speechCode: 'en-US' },
   { code: 'en-GB', displayCode: 'en', name: 'English (UK)', nativeName: 'English (UK)', flag: '🇬🇧', speechCode: 'en-GB' },
@@ -34,10 +54,12 @@ const languageList: Language[] = [
   { code: 'mt-MT', displayCode: 'mt', name: 'Maltese', nativeName: 'Malti', flag: '🇲🇹', speechCode: 'mt-MT' },
   { code: 'pl-PL', displayCode: 'pl', name: 'Polish', nativeName: 'Polski', flag: '🇵🇱', speechCode: 'pl-PL' },
   { code: 'pt-PT', displayCode: 'pt', name: 'Portuguese', nativeName: 'Português', flag: '🇵🇹', speechCode: 'pt-PT' },
+  { code: 'pt-BR', displayCode: 'pt', name: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)', flag: '🇧🇷', speechCode: 'pt-BR' },
   { code: 'ro-RO', displayCode: 'ro', name: 'Romanian', nativeName: 'Română', flag: '🇷🇴', speechCode: 'ro-RO' },
   { code: 'sk-SK', displayCode: 'sk', name: 'Slovak', nativeName: 'Slovenčina', flag: '🇸🇰', speechCode: 'sk-SK' },
   { code: 'sl-SI', displayCode: 'sl', name: 'Slovenian', nativeName: 'Slovenščina', flag: '🇸🇮', speechCode: 'sl-SI' },
   { code: 'es-ES', displayCode: 'es', name: 'Spanish', nativeName: 'Español', flag: '🇪🇸', speechCode: 'es-ES' },
+  { code: 'es-MX', displayCode: 'es', name: 'Spanish (Mexico)', nativeName: 'Español (México)', flag: '🇲🇽', speechCode: 'es-MX' },
   { code: 'sv-SE', displayCode: 'sv', name: 'Swedish', nativeName: 'Svenska', flag: '🇸🇪', speechCode: 'sv-SE' },
 
   // European (non-EU)
@@ -57,19 +79,139 @@ const languageList: Language[] = [
   { code: 'zh-TW', displayCode: 'zh', name: 'Chinese (Traditional)', nativeName: '繁體中文', flag: '🇹🇼', speechCode: 'zh-TW' },
   { code: 'ja-JP', displayCode: 'ja', name: 'Japanese', nativeName: '日本語', flag: '🇯🇵', speechCode: 'ja-JP' },
   { code: 'ko-KR', displayCode: 'ko', name: 'Korean', nativeName: '한국어', flag: '🇰🇷', speechCode: 'ko-KR' },
+  { code: 'hi-IN', displayCode: 'hi', name: 'Hindi', nativeName: 'हिन्दी', flag: '🇮🇳', speechCode: 'hi-IN' },
 
   // Middle Eastern Languages (RTL)
   { code: 'ar-SA', displayCode: 'ar', name: 'Arabic', nativeName: 'العربية', flag: '🇸🇦', speechCode: 'ar-SA', isRTL: true },
   { code: 'he-IL', displayCode: 'he', name: 'Hebrew', nativeName: 'עברית', flag: '🇮🇱', speechCode: 'he-IL', isRTL: true },
+  { code: 'fa-IR', displayCode: 'fa', name: 'Persian', nativeName: 'فارسی', flag: '🇮🇷', speechCode: 'fa-IR', isRTL: true },
 ];
 
+// Per language (displayCode); regional variants share an entry
+const capabilitiesByLanguage: Record<string, LanguageCapabilities> = {
+  en: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['en_US', 'en_GB'], script: 'Latin' },
+  bg: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: [], script: 'Cyrillic' },
+  hr: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: [], script: 'Latin' },
+  cs: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['cs_CZ'], script: 'Latin' },
+  da: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['da_DK'], script: 'Latin' },
+  nl: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['nl_NL', 'nl_BE'], script: 'Latin' },
+  et: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: [], script: 'Latin' },
+  fi: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['fi_FI'], script: 'Latin' },
+  fr: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['fr_FR'], script: 'Latin' },
+  de: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['de_DE'], script: 'Latin' },
+  el: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['el_GR'], script: 'Greek' },
+  hu: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['hu_HU'], script: 'Latin' },
+  ga: { speechRecognition: 'low', translation: 'limited', browserVoice: false, piperVoices: [], script: 'Latin' },
+  it: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['it_IT'], script: 'Latin' },
+  lv: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: ['lv_LV'], script: 'Latin' },
+  lt: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: [], script: 'Latin' },
+  mt: { speechRecognition: 'low', translation: 'limited', browserVoice: false, piperVoices: [], script: 'Latin' },
+  pl: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['pl_PL'], script: 'Latin' },
+  pt: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['pt_PT', 'pt_BR'], script: 'Latin' },
+  ro: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['ro_RO'], script: 'Latin' },
+  sk: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['sk_SK'], script: 'Latin' },
+  sl: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: ['sl_SI'], script: 'Latin' },
+  es: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['es_ES', 'es_MX'], script: 'Latin' },
+  sv: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['sv_SE'], script: 'Latin' },
+  is: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: ['is_IS'], script: 'Latin' },
+  no: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['no_NO'], script: 'Latin' },
+  lb: { speechRecognition: 'low', translation: 'limited', browserVoice: false, piperVoices: ['lb_LU'], script: 'Latin' },
+  sq: { speechRecognition: 'low', translation: 'full', browserVoice: false, piperVoices: [], script: 'Latin' },
+  sr: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['sr_RS'], script: 'Cyrillic' },
+  mk: { speechRecognition: 'low', translation: 'full', browserVoice: false, piperVoices: [], script: 'Cyrillic' },
+  bs: { speechRecognition: 'low', translation: 'full', browserVoice: true, piperVoices: [], script: 'Latin' },
+  uk: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['uk_UA'], script: 'Cyrillic' },
+  ru: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['ru_RU'], script: 'Cyrillic' },
+  tr: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['tr_TR'], script: 'Latin' },
+  zh: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['zh_CN'], script: 'Han' },
+  ja: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: [], script: 'Japanese' },
+  ko: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: [], script: 'Hangul' },
+  hi: { speechRecognition: 'high', translation: 'full', browserVoice: true, piperVoices: ['hi_IN'], script: 'Devanagari' },
+  ar: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: ['ar_JO'], script: 'Arabic' },
+  he: { speechRecognition: 'medium', translation: 'full', browserVoice: true, piperVoices: [], script: 'Hebrew' },
+  fa: { speechRecognition: 'medium', translation: 'full', browserVoice: false, piperVoices: ['fa_IR'], script: 'Arabic' },
+};
+
 // Don't sort by default - will sort dynamically based on selected language
-export const languages = languageList;
+export const languages: Language[] = languageList.map(lang => ({
+  ...lang,
+  capabilities: capabilitiesByLanguage[lang.displayCode],
+}));
 
 export const getLanguageByCode = (code: string): Language | undefined => {
   return languages.find(lang => lang.code === code);
 };
 
+// Translation targets are keyed by the full locale code so regional variants stay apart (en-US vs en-GB).
+// Records and settings from before that used the 2-letter displayCode; those resolve to the first entry.
+export const resolveLanguage = (code: string): Language | undefined =>
+  getLanguageByCode(code) ?? languages.find(lang => lang.displayCode === code);
+
+export const toTargetCode = (code: string): string => resolveLanguage(code)?.code ?? code;
+
+// Re-keys a per-target map from 2-letter codes to locale codes; keys that are already locale codes are kept
+export const toTargetKeys = <T>(map: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(map).map(([code, value]) => [toTargetCode(code), value]));
+
+// Language part of a locale code ("pt-BR" → "pt"), comparable to a detected source language
+export const baseLanguage = (code: string): string => code.split('-')[0];
+
+const hasRegionalSiblings = (language: Language) =>
+  languages.some(lang => lang !== language && lang.displayCode === language.displayCode);
+
+// Code to pass to Intl.DisplayNames: the locale where it tells variants apart ("British English"), else the language
+export const displayNameCode = (language: Language): string =>
+  hasRegionalSiblings(language) ? language.code : language.displayCode;
+
+// Speech output engines with a voice for the language; what a device actually offers may differ
+export const ttsEnginesFor = (language: Language): TtsEngineId[] => [
+  ...(language.capabilities.browserVoice ? ['browser' as const] : []),
+  ...(language.capabilities.piperVoices.length > 0 ? ['piper' as const] : []),
+];
+
+// Readers who do not know the script cannot pronounce names or terms without a romanized form
+export const needsTransliteration = (language: Language): boolean => language.capabilities.script !== 'Latin';
+
+// 'speech': spoken into the microphone; 'target': translated into and read aloud
+export type LanguageUse = 'speech' | 'target';
+
+export interface CapabilityBadge {
+  label: string;
+  detail: string; // Tooltip and warning text
+  isWarning: boolean;
+}
+
+const warning = (label: string, detail: string): CapabilityBadge => ({ label, detail, isWarning: true });
+const note = (label: string, detail: string): CapabilityBadge => ({ label, detail, isWarning: false });
+
+// Badges for language pickers, warnings first
+export const capabilityBadges = (language: Language, uses: LanguageUse[]): CapabilityBadge[] => {
+  const { speechRecognition, translation, browserVoice, script } = language.capabilities;
+  const { name } = language;
+  const badges: CapabilityBadge[] = [];
+  if (uses.includes('speech')) {
+    if (speechRecognition === 'low') {
+      badges.push(warning('Weak recognition', `Speech recognition makes more mistakes in ${name}; check the transcript.`));
+    } else if (speechRecognition === 'high') {
+      badges.push(note('Best recognition', `${name} is among the languages Voxtral transcribes best.`));
+    }
+  }
+  if (uses.includes('target')) {
+    if (translation === 'limited') {
+      badges.push(warning('Limited translation', `Translations into ${name} are less reliable; have important text checked.`));
+    }
+    if (ttsEnginesFor(language).length === 0) {
+      badges.push(warning('No voice', `Browsers and Piper have no ${name} voice; translations can only be read.`));
+    } else if (!browserVoice) {
+      badges.push(note('Piper voice only', `Browsers rarely include a ${name} voice; set up a Piper server in Settings to hear it.`));
+    }
+    if (needsTransliteration(language)) {
+      badges.push(note(`${script} script`, `Readers who do not know the ${script} script may need a transliteration.`));
+    }
+  }
+  return badges.sort((a, b) => Number(b.isWarning) - Number(a.isWarning));
+};
+
 /**
  * Get localized name of a language in the target locale
  * Uses Intl.DisplayNames API for accurate translations
@@ -83,10 +225,11 @@ export const getLocalizedLanguageName = (language: Language, targetLocale: strin
     });
 
     // Get the localized name
-    const localizedName = displayNames.of(language.displayCode);
+    const code = displayNameCode(language);
+    const localizedName = displayNames.of(code);
 
     // If we got a valid result, use it
-    if (localizedName && localizedName !== language.displayCode) {
+    if (localizedName && localizedName !== code) {
       return localizedName;
     }
 
@@ -0,0 +1,59 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import { EasyTranslatorDB, type Transcription } from './db';
+
+const DB_NAME = 'EasyTranslatorDB';
+
+// The v11 schema, to write rows the way the previous version stored them
+const openV11 = async () => {
+    const legacy = new Dexie(DB_NAME);
+    legacy.version(11).stores({
+        conversations: '++id, createdAt, updatedAt',
+        settings: '&id',
+        transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+        ttsCache: '&key, createdAt',
+        pendingJobs: '++id, createdAt, status',
+        glossary: '++id, targetLang, sourceLang',
+        usageLedger: '++id, createdAt, model',
+        profiles: '&id, createdAt',
+        syncState: '&key',
+    });
+    await legacy.open();
+    return legacy;
+};
+
+const transcript = (overrides: Partial<Transcription>): Transcription => ({
+    createdAt: 1_700_000_000_000,
+    sourceText: 'Guten Morgen',
+    sourceLang: 'de',
+    targetCodes: ['en', 'pt'],
+    translations: { en: 'Good morning', pt: 'Bom dia' },
+    variantGroupId: 'group-1',
+    variantOfId: null,
+    ...overrides,
+});
+
+afterEach(async () => {
+    await Dexie.delete(DB_NAME);
+});
+
+describe('version 12 upgrade', () => {
+    it('moves targets to locale codes without changing when a transcript was last changed', async () => {
+        const legacy = await openV11();
+        const syncedId = await legacy.table('transcriptions').add(transcript({ updatedAt: 1_700_000_500_000 }));
+        const unsyncedId = await legacy.table('transcriptions').add(transcript({ variantGroupId: 'group-2' }));
+        legacy.close();
+
+        const db = new EasyTranslatorDB();
+        await db.open();
+        const synced = await db.transcriptions.get(syncedId as number);
+        const unsynced = await db.transcriptions.get(unsyncedId as number);
+        db.close();
+
+        expect(synced?.targetCodes).toEqual(['en-US', 'pt-PT']);
+        expect(Object.keys(synced?.translations ?? {})).toEqual(['en-US', 'pt-PT']);
+        expect(synced?.updatedAt).toBe(1_700_000_500_000);
+        expect(unsynced?.updatedAt).toBe(1_700_000_000_000);
+    });
+});
@@ -1,6 +1,32 @@
 import Dexie, { type Table } from 'dexie';
+import { buildSearchWords } from './searchWords';
+import { toLocaleTargetCodes, withLocaleConversation, withLocaleTargetSettings, withLocaleTargets } from './targetCodes';
 
+export type ConversationSpeaker = 'a' | 'b';
+
+export interface ConversationTurn {
+    id: string;
+    createdAt: number;
+    speaker: ConversationSpeaker;
+    audioBlob: Blob | null;
+    sourceText: string;
+    sourceLang: string; // Detected language, as reported (usually the 2-letter code)
+    targetLang: string; // The other speaker's language (locale code, e.g. "pt-BR")
+    translatedText: string;
+}
+
+// A two-party session: speaker A talks in langA, speaker B in langB.
 export interface Conversation {
+    id?: number;
+    createdAt: number;
+    updatedAt: number;
+    langA: string; // Locale code, e.g. "pt-BR"
+    langB: string;
+    turns: ConversationTurn[];
+}
+
+// Shape of rows written before sessions existed (one row per one-shot translation)
+interface LegacyConversationRow {
     id?: number;
     createdAt: number;
     sourceText: string;
@@ -9,30 +35,225 @@ export interface Conversation {
     targetLang: string;
 }
 
+// A stretch of the source audio and what was said in it. Times are in seconds from the start of the recording.
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// A glossary term the model was told to use but that is missing from the translation
+export interface GlossaryMiss {
+    sourceTerm: string;
+    targetTerm: string;
+}
+
+// Form of address in a translation (e.g. Sie/du, vous/tu, usted/tú); neutral lets the model choose
+export type TranslationRegister = 'formal' | 'informal' | 'neutral';
+
+// A translation translated back into the source language, to spot translations that changed the meaning
+export interface BackTranslation {
+    text: string;
+    score: number; // Similarity to the source text, 0 (unrelated) to 1 (identical)
+}
+
 export interface Transcription {
     id?: number;
     createdAt: number;
-    audioBlob: Blob;
+    audioBlob?: Blob; // Absent for typed text
     sourceText: string;
     sourceLang: string;
     targetCodes: string[];
     translations: Record<string, string>;
     variantGroupId: string;
     variantOfId: number | null;
+    segments?: TranscriptSegment[]; // Absent for records saved before timestamps were requested
+    glossaryMisses?: Record<string, GlossaryMiss[]>; // Keyed by target code; only targets that ignored the glossary
+    sourceFileName?: string; // Original name of an imported audio file; absent for microphone recordings
+    backTranslations?: Record<string, BackTranslation>; // Keyed by target code; only when the quality check ran
+    registers?: Record<string, TranslationRegister>; // Register requested per target code; missing means neutral
+    searchWords?: string[]; // Maintained by the table hooks below; backs full-text search
+    updatedAt?: number; // Last change, maintained by the table hooks below; missing on records saved before sync
+    audioRemovedAt?: number; // Audio deleted on this device to save space (see stores/storage.ts); the text stays
+}
+
+// Per-transcript bookkeeping of the sync engine (see stores/sync.ts), keyed like the remote files
+export interface SyncStateEntry {
+    key: string; // `${variantGroupId}_${createdAt}`
+    syncedUpdatedAt: number | null; // Local updatedAt (or deletedAt) that the remote copy matches
+    remoteVersion: string | null; // ETag or version the server reported for that copy
+    remoteAudioFile: string | null; // Name under audio/ on the server; changes when the audio is re-encoded
+    deletedAt: number | null; // Deleted on this device; kept as a tombstone so other devices delete it too
+    error: string | null; // Last failure for this record
+    lastSyncedAt: number | null;
+}
+
+export type PendingJobStatus = 'queued' | 'processing' | 'failed';
+
+export interface PendingJob {
+    id?: number;
+    createdAt: number;
+    updatedAt: number;
+    audioBlob: Blob;
+    targetCodes: string[];
+    status: PendingJobStatus;
+    error: string | null; // Reason of the last failure
+    attempts: number;
+    // Set when the job re-translates a saved transcript, so the result is linked as a variant
+    variantGroupId: string | null;
+    variantOfId: number | null;
+    sourceFileName?: string; // Carried over to the saved transcript
+}
+
+export interface TtsCacheEntry {
+    key: string; // `${engine}|${voice}|${text}`
+    engine: TtsEngineId;
+    voice: string;
+    text: string;
+    audioBlob: Blob;
+    createdAt: number;
 }
 
 export type AppMode = 'simple' | 'extended';
 
+export type TranslationProviderId = 'mistral' | 'openai-compatible';
+
+export type TtsEngineId = 'browser' | 'piper';
+
+export interface OpenAICompatibleSettings {
+    baseUrl: string;
+    model: string;
+    apiKey: string | null; // Null while a passphrase is set (sealed in AppSettings.encryptedSecrets)
+}
+
+// Required wording for a term, per target language
+export interface GlossaryEntry {
+    id?: number;
+    sourceLang: string | null; // Display code; null applies whatever language was spoken
+    targetLang: string; // Display code
+    sourceTerm: string;
+    targetTerm: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// One provider request in the usage ledger. Usage numbers are null when the response did not report them.
+export interface UsageRecord {
+    id?: number;
+    createdAt: number;
+    provider: TranslationProviderId;
+    model: string;
+    kind: 'transcribe-translate' | 'segments' | 'translate-text' | 'back-translate';
+    audioSeconds: number | null;
+    promptTokens: number | null;
+    completionTokens: number | null;
+    totalTokens: number | null;
+    sourceLang: string; // Display code, '' if not detected
+    targetCodes: string[];
+    uploadBytes?: number; // Base64 audio sent with the request; missing on older entries and segment requests
+    nativeUploadBytes?: number; // What the same audio would have been as native-rate WAV
+}
+
+// User-editable prices used for cost estimates, in USD
+export interface ModelPrice {
+    perAudioMinute: number;
+    perMillionPromptTokens: number;
+    perMillionCompletionTokens: number;
+}
+
+// How Mistral is reached: with the key stored in this browser, or through the api/ edge functions
+export type MistralConnection = 'direct' | 'proxy';
+
+export interface ProxySettings {
+    baseUrl: string; // Empty means the api/ routes of this deployment
+    accessToken: string | null; // Null while a passphrase is set (sealed in AppSettings.encryptedSecrets)
+}
+
+// Voice activity detection: levels are RMS in dBFS, the same scale for the live microphone and saved recordings
+export interface VoiceActivitySettings {
+    handsFree: boolean; // Record button waits for speech and stops after silence
+    trimSilence: boolean; // Cut leading and trailing silence before a recording is sent
+    speechThresholdDb: number; // Louder than this counts as speech
+    silenceStopSeconds: number; // Hands-free recording stops after this much silence
+    noiseFloorDb: number | null; // Room noise measured by the last calibration
+}
+
+// Language setup and request options that belong to a named profile (e.g. "clinic", "trade fair").
+// The active profile's values are mirrored into AppSettings, which the rest of the app reads.
+export interface ProfileSettings {
+    sourceLang: string | null;
+    targetLang: string;
+    extendedTargetLangs: string[];
+    targetRegisters: Record<string, TranslationRegister>;
+    ttsVoices: Record<string, string>;
+    ttsEngines: Record<string, TtsEngineId>;
+    provider: TranslationProviderId;
+    openaiCompatibleModel: string; // AppSettings.openaiCompatible.model; server URL and key stay per device
+    verifyTranslations: boolean;
+}
+
+export interface SettingsProfile {
+    id: string;
+    name: string;
+    settings: ProfileSettings;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Applied on startup and from the storage page (see stores/storage.ts)
+export interface AudioRetentionSettings {
+    dropAudioAfterDays: number; // Remove the audio of transcripts older than this; 0 keeps it forever
+    reencodeToOpus: boolean; // Convert saved WAV recordings to Ogg Opus where the browser can encode and play it
+}
+
+export type SyncBackendId = 'webdav' | 'rest';
+
+export interface SyncSettings {
+    enabled: boolean;
+    backend: SyncBackendId;
+    baseUrl: string; // Folder (WebDAV) or API root (REST); may be relative to this app, e.g. a dev proxy
+    username: string; // WebDAV basic auth; empty sends no credentials
+    secret: string | null; // WebDAV password or REST bearer token; null while a passphrase is set
+}
+
+// A secret encrypted with a key derived from the user's passphrase (see utils/secretBox.ts); byte fields are base64
+export interface EncryptedSecret {
+    salt: string;
+    iv: string;
+    ciphertext: string;
+    iterations: number; // PBKDF2 rounds used for this salt
+}
+
 export interface AppSettings {
     id: 'app';
     mode: AppMode;
-    apiKey: string | null;
+    apiKey: string | null; // Plain text; always null while encryptedSecrets is set
+    // Set when a passphrase protects the secrets: this key, the OpenAI-compatible key, the proxy token and the
+    // sync password, sealed together as one JSON object
+    encryptedSecrets: EncryptedSecret | null;
+    autoLockMinutes: number; // The decrypted secrets are forgotten after this long without input; 0 never locks
+    provider: TranslationProviderId;
+    openaiCompatible: OpenAICompatibleSettings;
+    mistralConnection: MistralConnection;
+    proxy: ProxySettings;
     sourceLang: string | null;
     targetLang: string;
     extendedTargetLangs: string[];
+    targetRegisters: Record<string, TranslationRegister>; // Keyed by target code; only non-neutral entries are stored
     infoLanguage: string | null;
     ttsVoices: Record<string, string>;
+    ttsEngines: Record<string, TtsEngineId>; // Keyed by speech code (e.g. "fr-FR"); missing means 'browser'
+    piperServerUrl: string;
+    maxChunkSeconds: number; // Longer recordings are processed in chunks of this length; 0 disables chunking
+    voiceActivity: VoiceActivitySettings;
+    priceTable: Record<string, ModelPrice>; // Keyed by model id
+    monthlyBudget: number | null; // USD; null means no budget
+    verifyTranslations: boolean; // Back-translate every result into the source language and score it
+    segmentTimestamps: boolean; // Extra audio request per recording for timestamps that highlight the transcript during playback
     hasCompletedLanguageSetup: boolean;
+    activeProfileId: string | null; // null only until the first load creates the default profile
+    sync: SyncSettings;
+    retention: AudioRetentionSettings;
     updatedAt: number;
 }
 
@@ -40,6 +261,12 @@ export class EasyTranslatorDB extends Dexie {
     conversations!: Table<Conversation>;
     settings!: Table<AppSettings>;
     transcriptions!: Table<Transcription>;
+    ttsCache!: Table<TtsCacheEntry, string>;
+    pendingJobs!: Table<PendingJob>;
+    glossary!: Table<GlossaryEntry>;
+    usageLedger!: Table<UsageRecord>;
+    profiles!: Table<SettingsProfile, string>;
+    syncState!: Table<SyncStateEntry, string>;
 
     constructor() {
         super('EasyTranslatorDB');
@@ -55,6 +282,155 @@ export class EasyTranslatorDB extends Dexie {
             settings: '&id',
             transcriptions: '++id, createdAt, variantGroupId, variantOfId'
         });
+        this.version(4).stores({
+            conversations: '++id, createdAt, sourceLang, targetLang',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId',
+            ttsCache: '&key, createdAt'
+        });
+        this.version(5).stores({
+            conversations: '++id, createdAt, sourceLang, targetLang',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status'
+        });
+        this.version(6).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status'
+        }).upgrade(tx => {
+            // Turn each legacy one-shot row into a single-turn session
+            return tx.table('conversations').toCollection().modify((row: any) => {
+                if (Array.isArray(row.turns)) return;
+                const legacy = row as LegacyConversationRow;
+                const turn: ConversationTurn = {
+                    id: `legacy-${legacy.id ?? legacy.createdAt}`,
+                    createdAt: legacy.createdAt,
+                    speaker: 'a',
+                    audioBlob: null,
+                    sourceText: legacy.sourceText,
+                    sourceLang: legacy.sourceLang,
+                    targetLang: legacy.targetLang,
+                    translatedText: legacy.translatedText,
+                };
+                const session: Conversation = {
+                    id: legacy.id,
+                    createdAt: legacy.createdAt,
+                    updatedAt: legacy.createdAt,
+                    langA: legacy.sourceLang,
+                    langB: legacy.targetLang,
+                    turns: [turn],
+                };
+                delete row.sourceText;
+                delete row.sourceLang;
+                delete row.translatedText;
+                delete row.targetLang;
+                Object.assign(row, session);
+            });
+        });
+        this.version(7).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status'
+        }).upgrade(tx => {
+            return tx.table('transcriptions').toCollection().modify((row: Transcription) => {
+                row.searchWords = buildSearchWords(row);
+            });
+        });
+        this.version(8).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status',
+            glossary: '++id, targetLang, sourceLang'
+        });
+        this.version(9).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status',
+            glossary: '++id, targetLang, sourceLang',
+            usageLedger: '++id, createdAt, model'
+        });
+        // The settings store moves the existing 'app' row into a default profile on first load
+        this.version(10).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status',
+            glossary: '++id, targetLang, sourceLang',
+            usageLedger: '++id, createdAt, model',
+            profiles: '&id, createdAt'
+        });
+        this.version(11).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status',
+            glossary: '++id, targetLang, sourceLang',
+            usageLedger: '++id, createdAt, model',
+            profiles: '&id, createdAt',
+            syncState: '&key'
+        });
+        // Target codes and conversation languages move from "en" to "en-US" (see targetCodes.ts); glossary entries stay per language
+        this.version(12).stores({
+            conversations: '++id, createdAt, updatedAt',
+            settings: '&id',
+            transcriptions: '++id, createdAt, variantGroupId, variantOfId, sourceLang, *targetCodes, *searchWords',
+            ttsCache: '&key, createdAt',
+            pendingJobs: '++id, createdAt, status',
+            glossary: '++id, targetLang, sourceLang',
+            usageLedger: '++id, createdAt, model',
+            profiles: '&id, createdAt',
+            syncState: '&key'
+        }).upgrade(async tx => {
+            // Re-keying is not an edit; records from before sync keep the creation time sync already used for them
+            await tx.table('transcriptions').toCollection().modify((row: Transcription) => {
+                Object.assign(row, withLocaleTargets(row), { updatedAt: row.updatedAt ?? row.createdAt });
+            });
+            await tx.table('pendingJobs').toCollection().modify((job: PendingJob) => {
+                job.targetCodes = toLocaleTargetCodes(job.targetCodes);
+            });
+            await tx.table('settings').toCollection().modify((row: AppSettings) => {
+                Object.assign(row, withLocaleTargetSettings(row));
+            });
+            await tx.table('profiles').toCollection().modify((profile: SettingsProfile) => {
+                profile.settings = withLocaleTargetSettings(profile.settings);
+            });
+            await tx.table('conversations').toCollection().modify((session: Conversation) => {
+                Object.assign(session, withLocaleConversation(session));
+            });
+        });
+
+        // Keep the word index and the change time current no matter which code path writes transcripts.
+        // Writes that carry their own updatedAt (records pulled by sync) keep it. Schema upgrades are not edits:
+        // stamping them would make sync push (and other devices duplicate) every record after each migration.
+        this.transcriptions.hook('creating', (_primKey, obj) => {
+            obj.searchWords = buildSearchWords(obj);
+            obj.updatedAt ??= Date.now();
+        });
+        this.transcriptions.hook('updating', (mods, _primKey, obj, transaction) => {
+            const changes = mods as Partial<Transcription>;
+            // Dexie reports upgrades as 'readwrite'; only the underlying IndexedDB transaction tells them apart
+            const isEdit = !('updatedAt' in changes) && transaction.idbtrans.mode !== 'versionchange';
+            const extra: Partial<Transcription> = isEdit ? { updatedAt: Date.now() } : {};
+            if ('sourceText' in changes || 'translations' in changes) {
+                extra.searchWords = buildSearchWords({
+                    sourceText: changes.sourceText ?? obj.sourceText,
+                    translations: changes.translations ?? obj.translations,
+                });
+            }
+            return extra;
+        });
     }
 }
 
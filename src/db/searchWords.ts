@@ -0,0 +1,23 @@
+import type { Transcription } from './db';
+
+const MAX_WORD_LENGTH = 40;
+
+// Lowercases and strips diacritics so "Müller" is found by "muller".
+export const normalizeForSearch = (text: string) =>
+    text.normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+    normalizeForSearch(text)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length > 0)
+        .map(word => word.slice(0, MAX_WORD_LENGTH));
+
+// Values for the multi-entry `searchWords` index: every distinct word of the source text and all translations.
+export const buildSearchWords = (item: Pick<Transcription, 'sourceText' | 'translations'>): string[] => {
+    const words = new Set<string>();
+    for (const word of tokenize(item.sourceText || '')) words.add(word);
+    for (const value of Object.values(item.translations || {})) {
+        for (const word of tokenize(value || '')) words.add(word);
+    }
+    return [...words];
+};
@@ -0,0 +1,35 @@
+import { toTargetCode, toTargetKeys } from '../config/languages';
+import type { Conversation, ProfileSettings, Transcription } from './db';
+
+// Targets used to be keyed by the 2-letter displayCode, which merged regional variants (en-US and en-GB both
+// became "en"). These bring data from that time to locale codes; data that already uses them passes unchanged.
+
+type TargetFields = Pick<Transcription, 'targetCodes' | 'translations' | 'registers' | 'glossaryMisses' | 'backTranslations'>;
+
+export const toLocaleTargetCodes = (codes: string[]): string[] => [...new Set(codes.map(toTargetCode))];
+
+export const withLocaleTargets = <T extends TargetFields>(record: T): T => ({
+    ...record,
+    targetCodes: toLocaleTargetCodes(record.targetCodes),
+    translations: toTargetKeys(record.translations),
+    ...(record.registers ? { registers: toTargetKeys(record.registers) } : {}),
+    ...(record.glossaryMisses ? { glossaryMisses: toTargetKeys(record.glossaryMisses) } : {}),
+    ...(record.backTranslations ? { backTranslations: toTargetKeys(record.backTranslations) } : {}),
+});
+
+// Shared by AppSettings and the profiles mirrored into it; TTS voices were always keyed by speech code
+export const withLocaleTargetSettings = <T extends Pick<ProfileSettings, 'extendedTargetLangs' | 'targetRegisters'>>(
+    settings: T
+): T => ({
+    ...settings,
+    extendedTargetLangs: toLocaleTargetCodes(settings.extendedTargetLangs ?? []),
+    targetRegisters: toTargetKeys(settings.targetRegisters ?? {}),
+});
+
+// Speaker languages pick the regional variant too; detected source languages are kept as the model reported them
+export const withLocaleConversation = (session: Conversation): Conversation => ({
+    ...session,
+    langA: toTargetCode(session.langA),
+    langB: toTargetCode(session.langB),
+    turns: session.turns.map(turn => ({ ...turn, targetLang: toTargetCode(turn.targetLang) })),
+});
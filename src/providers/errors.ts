@@ -0,0 +1,189 @@
+// Typed failures of provider requests, plus the fetch/retry helpers that produce them.
+// Shared with the api/ edge functions, so nothing in here may depend on the browser or Vue.
+
+export type ProviderErrorKind =
+    | 'invalid-key' // 401/403: key (or proxy access token) missing or rejected
+    | 'rate-limited' // 429: quota or rate limit, possibly with Retry-After
+    | 'schema-rejected' // The server refused the structured response format
+    | 'request-rejected' // Any other 4xx
+    | 'server' // 5xx
+    | 'server-config' // The api/ proxy is misconfigured (server key missing or rejected); retrying cannot help
+    | 'network' // The request never got a response
+    | 'timeout'
+    | 'malformed-response' // Response or model output is not the JSON we asked for
+    | 'cancelled'; // Aborted by the caller
+
+// Prefix of the body of a proxy response for a misconfigured deployment. Still a 500, but the proxy provider
+// must not treat it as a transient server error.
+export const SERVER_CONFIG_ERROR_CODE = 'server-config-error';
+
+const RETRYABLE_KINDS: ReadonlySet<ProviderErrorKind> = new Set<ProviderErrorKind>([
+    'rate-limited',
+    'server',
+    'network',
+    'timeout',
+    'malformed-response',
+]);
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    readonly status: number | null;
+    readonly retryAfterMs: number | null;
+
+    constructor(
+        kind: ProviderErrorKind,
+        message: string,
+        options: { status?: number; retryAfterMs?: number | null } = {}
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.status = options.status ?? null;
+        this.retryAfterMs = options.retryAfterMs ?? null;
+    }
+
+    get isRetryable() {
+        return RETRYABLE_KINDS.has(this.kind);
+    }
+}
+
+export const isProviderError = (error: unknown): error is ProviderError => error instanceof ProviderError;
+
+export const isCancelledError = (error: unknown) => isProviderError(error) && error.kind === 'cancelled';
+
+const cancelledError = (label: string) => new ProviderError('cancelled', `${label} request was cancelled.`);
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | null => {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const mentionsResponseFormat = (text: string) => {
+    const lower = text.toLowerCase();
+    return lower.includes('json_schema') || lower.includes('response_format');
+};
+
+// Maps a non-2xx response to a typed error. Reads the body, so call it at most once per response.
+export const errorFromResponse = async (res: Response, label: string): Promise<ProviderError> => {
+    const status = res.status;
+    const text = await res.text().catch(() => '');
+    const detail = text ? `: ${text}` : '';
+
+    if (status === 401 || status === 403) {
+        return new ProviderError('invalid-key', `${label} rejected the API key (${status})${detail}`, { status });
+    }
+    if (status === 429) {
+        return new ProviderError('rate-limited', `${label} rate limit or quota reached${detail}`, {
+            status,
+            retryAfterMs: parseRetryAfter(res.headers.get('Retry-After')),
+        });
+    }
+    if (status === 408 || status === 504) {
+        return new ProviderError('timeout', `${label} timed out (${status})${detail}`, { status });
+    }
+    if (status >= 500) {
+        return new ProviderError('server', `${label} server error (${status})${detail}`, { status });
+    }
+    if (status === 400 && mentionsResponseFormat(text)) {
+        return new ProviderError('schema-rejected', `${label} rejected the response format${detail}`, { status });
+    }
+    return new ProviderError('request-rejected', `${label} API Error (${status})${detail}`, { status });
+};
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 120_000;
+
+export interface RequestJsonOptions {
+    label: string; // Used in error messages
+    signal?: AbortSignal; // Cancels the request; the promise then rejects with a 'cancelled' error
+    timeoutMs?: number;
+}
+
+// fetch + JSON body with a timeout, turning every failure into a ProviderError.
+// The timeout covers reading the body, not just the response headers.
+export const requestJson = async (url: string, init: RequestInit, options: RequestJsonOptions): Promise<any> => {
+    const { label, signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS } = options;
+    if (signal?.aborted) throw cancelledError(label);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+        let res: Response;
+        let text: string;
+        try {
+            res = await fetch(url, { ...init, signal: controller.signal });
+            if (!res.ok) throw await errorFromResponse(res, label);
+            text = await res.text();
+        } catch (error) {
+            if (isProviderError(error)) throw error;
+            if (signal?.aborted) throw cancelledError(label);
+            if (timedOut) {
+                throw new ProviderError('timeout', `${label} did not answer within ${Math.round(timeoutMs / 1000)} s.`);
+            }
+            throw new ProviderError('network', `Could not reach ${label}: ${error}`);
+        }
+
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new ProviderError('malformed-response', `${label} returned a response that is not JSON.`, {
+                status: res.status,
+            });
+        }
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+    }
+};
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number; // Also the longest Retry-After we are willing to wait for
+    onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new ProviderError('cancelled', 'Request was cancelled.'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Runs `operation` again after transient failures (rate limit, 5xx, network, timeout, malformed output),
+// waiting baseDelayMs * 2^(attempt - 1) with jitter, or the server's Retry-After when it sent one.
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { signal, maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 30_000, onRetry } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (!isProviderError(error) || !error.isRetryable || attempt >= maxAttempts) throw error;
+            if (error.retryAfterMs !== null && error.retryAfterMs > maxDelayMs) throw error;
+
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const delayMs = error.retryAfterMs ?? Math.round(backoff * (0.75 + Math.random() * 0.5));
+            onRetry?.(error, attempt, delayMs);
+            if (signal?.aborted) throw new ProviderError('cancelled', 'Request was cancelled.');
+            await wait(delayMs, signal);
+        }
+    }
+};
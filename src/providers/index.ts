@@ -0,0 +1,35 @@
+import type { AppSettings } from '../db/db';
+import type { TranslationProvider } from './types';
+import { createMistralProvider } from './mistral';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createProxyProvider } from './proxy';
+
+export type {
+    GlossaryTerm,
+    TranslationProvider,
+    TranslationProviderId,
+    TargetLanguageMeta,
+    TranscribeSegmentsOutput,
+    TranscriptSegment,
+} from './types';
+export { ProviderError, isProviderError, isCancelledError, type ProviderErrorKind } from './errors';
+
+// Picks and configures the provider selected in settings. Throws a user-facing error if it is not usable yet.
+// Expects the decrypted keys and tokens in `settings` (see the settings store's providerSettings).
+export const resolveTranslationProvider = (settings: AppSettings): TranslationProvider => {
+    if (settings.provider === 'openai-compatible') {
+        const { baseUrl, model, apiKey } = settings.openaiCompatible;
+        if (!baseUrl.trim()) throw new Error('Missing server URL. Open Settings and add the base URL of your OpenAI-compatible server.');
+        if (!model.trim()) throw new Error('Missing model name. Open Settings and add the model to use on your server.');
+        return createOpenAICompatibleProvider({ baseUrl, model: model.trim(), apiKey });
+    }
+
+    if (settings.mistralConnection === 'proxy') {
+        return createProxyProvider(settings.proxy);
+    }
+
+    const devFallbackKey = import.meta.env.DEV ? import.meta.env.VITE_MISTRAL_API_KEY : undefined;
+    const apiKey = settings.apiKey || devFallbackKey;
+    if (!apiKey) throw new Error('Missing Mistral API key. Open Settings and add your key.');
+    return createMistralProvider(apiKey);
+};
@@ -0,0 +1,120 @@
+import type { GlossaryTerm, TargetLanguageMeta, TranscriptSegment, TranslationProvider } from './types';
+import { audioExtension } from '../utils/audio';
+import { requestJson } from './errors';
+import {
+    buildBackTranslateBody,
+    buildTranscribeAndTranslateSchema,
+    buildTranscribeAndTranslateSystemPrompt,
+    buildTranscribeAndTranslateUserText,
+    buildTranslateTextBody,
+    readBackTranslateResult,
+    readTranscribeAndTranslateResult,
+    requestChatCompletion,
+} from './chatCompletions';
+
+export const MISTRAL_CHAT_COMPLETIONS_URL = 'https://api.mistral.ai/v1/chat/completions';
+export const MISTRAL_DEFAULT_MODEL = 'voxtral-small-latest';
+export const MISTRAL_TRANSCRIPTIONS_URL = 'https://api.mistral.ai/v1/audio/transcriptions';
+export const MISTRAL_TRANSCRIPTION_MODEL = 'voxtral-mini-latest';
+export const MISTRAL_TEXT_MODEL = 'mistral-small-latest'; // Text-only translation needs no audio model
+
+export const readMistralSegments = (data: any): TranscriptSegment[] => {
+    if (!Array.isArray(data?.segments)) return [];
+    return data.segments
+        .filter((segment: any) => typeof segment?.start === 'number' && typeof segment?.end === 'number')
+        .map((segment: any) => ({
+            start: segment.start,
+            end: segment.end,
+            text: typeof segment.text === 'string' ? segment.text.trim() : '',
+        }))
+        .filter((segment: TranscriptSegment) => segment.text.length > 0);
+};
+
+// Request body for the combined transcribe + translate call; shared with the api/ edge function
+export const buildMistralTranscribeAndTranslateBody = (
+    model: string,
+    audioBase64: string,
+    targets: TargetLanguageMeta[],
+    glossary: GlossaryTerm[] = []
+) => ({
+    model,
+    response_format: buildTranscribeAndTranslateSchema(targets),
+    messages: [
+        { role: 'system', content: buildTranscribeAndTranslateSystemPrompt(targets, glossary) },
+        {
+            role: 'user',
+            content: [
+                // Mistral takes the base64 string directly
+                { type: 'input_audio', input_audio: audioBase64 },
+                { type: 'text', text: buildTranscribeAndTranslateUserText(targets) },
+            ],
+        },
+    ],
+});
+
+// Form data for the transcription endpoint with segment timestamps.
+// `language` must not be sent here: it is incompatible with timestamp_granularities.
+export const buildMistralSegmentsFormData = (audioBlob: Blob) => {
+    const formData = new FormData();
+    formData.append('file', audioBlob, `audio.${audioExtension(audioBlob.type, audioBlob instanceof File ? audioBlob.name : null)}`);
+    formData.append('model', MISTRAL_TRANSCRIPTION_MODEL);
+    formData.append('timestamp_granularities', JSON.stringify(['segment']));
+    return formData;
+};
+
+export const createMistralProvider = (apiKey: string): TranslationProvider => {
+    const label = 'Voxtral';
+    const model = MISTRAL_DEFAULT_MODEL;
+
+    return {
+        id: 'mistral',
+        label,
+        model,
+        transcribeAndTranslate: async ({ audioBase64, targets, glossary, signal }) => {
+            const data = await requestChatCompletion({
+                endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+                apiKey,
+                label,
+                signal,
+                body: buildMistralTranscribeAndTranslateBody(model, audioBase64, targets, glossary),
+            });
+
+            return readTranscribeAndTranslateResult(data, targets, label);
+        },
+        translateText: async ({ signal, ...input }) => {
+            const data = await requestChatCompletion({
+                endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+                apiKey,
+                label,
+                signal,
+                body: buildTranslateTextBody(MISTRAL_TEXT_MODEL, input),
+            });
+
+            return { ...readTranscribeAndTranslateResult(data, input.targets, label), model: MISTRAL_TEXT_MODEL };
+        },
+        backTranslate: async ({ signal, ...input }) => {
+            const data = await requestChatCompletion({
+                endpoint: MISTRAL_CHAT_COMPLETIONS_URL,
+                apiKey,
+                label,
+                signal,
+                body: buildBackTranslateBody(MISTRAL_TEXT_MODEL, input),
+            });
+
+            return { ...readBackTranslateResult(data, Object.keys(input.translations), label), model: MISTRAL_TEXT_MODEL };
+        },
+        // Chat completions carry no timing information, so segments come from the transcription endpoint
+        transcribeSegments: async (audioBlob, signal) => {
+            const data = await requestJson(
+                MISTRAL_TRANSCRIPTIONS_URL,
+                {
+                    method: 'POST',
+                    headers: { Authorization: `Bearer ${apiKey}` },
+                    body: buildMistralSegmentsFormData(audioBlob),
+                },
+                { label: `${label} transcription`, signal }
+            );
+            return { segments: readMistralSegments(data), usage: data.usage ?? null, model: MISTRAL_TRANSCRIPTION_MODEL };
+        },
+    };
+};
@@ -0,0 +1,75 @@
+import type { TranslationProvider } from './types';
+import {
+    buildBackTranslateBody,
+    buildTranscribeAndTranslateSchema,
+    buildTranscribeAndTranslateSystemPrompt,
+    buildTranscribeAndTranslateUserText,
+    buildTranslateTextBody,
+    readBackTranslateResult,
+    readTranscribeAndTranslateResult,
+    requestChatCompletion,
+} from './chatCompletions';
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string; // e.g. "http://localhost:8080/v1"
+    model: string;
+    apiKey: string | null; // Optional: local inference servers often run without auth
+}
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): TranslationProvider => {
+    const label = `OpenAI-compatible (${model})`;
+    const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        id: 'openai-compatible',
+        label,
+        model,
+        transcribeAndTranslate: async ({ audioBase64, targets, glossary, signal }) => {
+            const data = await requestChatCompletion({
+                endpoint,
+                apiKey,
+                label,
+                signal,
+                body: {
+                    model,
+                    response_format: buildTranscribeAndTranslateSchema(targets),
+                    messages: [
+                        { role: 'system', content: buildTranscribeAndTranslateSystemPrompt(targets, glossary) },
+                        {
+                            role: 'user',
+                            content: [
+                                // OpenAI-style servers expect an object with data + format
+                                { type: 'input_audio', input_audio: { data: audioBase64, format: 'wav' } },
+                                { type: 'text', text: buildTranscribeAndTranslateUserText(targets) },
+                            ],
+                        },
+                    ],
+                },
+            });
+
+            return readTranscribeAndTranslateResult(data, targets, label);
+        },
+        translateText: async ({ signal, ...input }) => {
+            const data = await requestChatCompletion({
+                endpoint,
+                apiKey,
+                label,
+                signal,
+                body: buildTranslateTextBody(model, input),
+            });
+
+            return readTranscribeAndTranslateResult(data, input.targets, label);
+        },
+        backTranslate: async ({ signal, ...input }) => {
+            const data = await requestChatCompletion({
+                endpoint,
+                apiKey,
+                label,
+                signal,
+                body: buildBackTranslateBody(model, input),
+            });
+
+            return readBackTranslateResult(data, Object.keys(input.translations), label);
+        },
+    };
+};
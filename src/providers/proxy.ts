@@ -0,0 +1,102 @@
+import type { BackTranslateOutput, TranscribeAndTranslateOutput, TranslationProvider } from './types';
+import { readMistralSegments, MISTRAL_DEFAULT_MODEL, MISTRAL_TEXT_MODEL, MISTRAL_TRANSCRIPTION_MODEL } from './mistral';
+import { audioExtension } from '../utils/audio';
+import { ProviderError, SERVER_CONFIG_ERROR_CODE, isProviderError, requestJson } from './errors';
+
+export const DEFAULT_PROXY_BASE_URL = '/api';
+
+export interface ProxyProviderConfig {
+    baseUrl: string; // Where the api/ edge functions are deployed; empty means this app's own origin
+    accessToken: string | null; // Matches PROXY_ACCESS_TOKEN on the server, if one is set
+}
+
+// Mistral through the api/ edge functions: the server holds the key, the browser only knows the proxy URL
+export const createProxyProvider = ({ baseUrl, accessToken }: ProxyProviderConfig): TranslationProvider => {
+    const label = 'Voxtral (server proxy)';
+    const root = (baseUrl.trim() || DEFAULT_PROXY_BASE_URL).replace(/\/+$/, '');
+
+    const authHeaders = (): Record<string, string> => (accessToken ? { Authorization: `Bearer ${accessToken}` } : {});
+
+    // The server already validated the shape; only guard against missing targets
+    const readOutput = (data: TranscribeAndTranslateOutput, targets: { code: string }[], fallbackModel: string) => {
+        const translations: Record<string, string> = {};
+        for (const { code } of targets) translations[code] = data.translations?.[code] ?? '';
+        return {
+            sourceText: data.sourceText || '',
+            sourceLanguage: data.sourceLanguage || '',
+            translations,
+            usage: data.usage ?? null,
+            model: data.model ?? fallbackModel,
+        };
+    };
+
+    // A 401 comes from the proxy itself (see api/_access.ts), never from Mistral.
+    // A configuration error (missing or rejected server key) stays until the deployment is fixed, so it is not retried.
+    const post = async (path: string, init: RequestInit, signal?: AbortSignal) => {
+        try {
+            return await requestJson(`${root}${path}`, { method: 'POST', ...init }, { label, signal });
+        } catch (error) {
+            if (isProviderError(error) && error.status === 401) {
+                throw new ProviderError('invalid-key', `${label}: access token missing or wrong. Check Settings.`, { status: 401 });
+            }
+            if (isProviderError(error) && error.status === 500 && error.message.includes(SERVER_CONFIG_ERROR_CODE)) {
+                throw new ProviderError('server-config', error.message, { status: 500 });
+            }
+            throw error;
+        }
+    };
+
+    return {
+        id: 'mistral',
+        label,
+        model: MISTRAL_DEFAULT_MODEL,
+        transcribeAndTranslate: async ({ audioBase64, targets, glossary, signal }) => {
+            const data: TranscribeAndTranslateOutput = await post(
+                '/transcribe',
+                {
+                    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                    body: JSON.stringify({ audioBase64, targets, glossary: glossary ?? [] }),
+                },
+                signal
+            );
+            console.log(`${label} response:`, data);
+            return readOutput(data, targets, MISTRAL_DEFAULT_MODEL);
+        },
+        translateText: async ({ sourceText, sourceLanguage, targets, glossary, signal }) => {
+            const data: TranscribeAndTranslateOutput = await post(
+                '/translate-text',
+                {
+                    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                    body: JSON.stringify({ sourceText, sourceLanguage, targets, glossary: glossary ?? [] }),
+                },
+                signal
+            );
+            console.log(`${label} response:`, data);
+            return readOutput(data, targets, MISTRAL_TEXT_MODEL);
+        },
+        backTranslate: async ({ translations, source, signal }) => {
+            const data: BackTranslateOutput = await post(
+                '/back-translate',
+                {
+                    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                    body: JSON.stringify({ translations, source }),
+                },
+                signal
+            );
+            const backTranslations: Record<string, string> = {};
+            for (const code of Object.keys(translations)) backTranslations[code] = data.backTranslations?.[code] ?? '';
+            return { backTranslations, usage: data.usage ?? null, model: data.model ?? MISTRAL_TEXT_MODEL };
+        },
+        transcribeSegments: async (audioBlob, signal) => {
+            const formData = new FormData();
+            formData.append('file', audioBlob, `audio.${audioExtension(audioBlob.type, audioBlob instanceof File ? audioBlob.name : null)}`);
+
+            const data = await post('/segments', { headers: authHeaders(), body: formData }, signal);
+            return {
+                segments: readMistralSegments(data),
+                usage: data.usage ?? null,
+                model: typeof data.model === 'string' ? data.model : MISTRAL_TRANSCRIPTION_MODEL,
+            };
+        },
+    };
+};
@@ -0,0 +1,68 @@
+import type { GlossaryEntry, TranscriptSegment, TranslationProviderId, TranslationRegister } from '../db/db';
+
+export type { TranscriptSegment, TranslationProviderId, TranslationRegister };
+
+export type GlossaryTerm = Pick<GlossaryEntry, 'sourceLang' | 'targetLang' | 'sourceTerm' | 'targetTerm'>;
+
+export interface TargetLanguageMeta {
+    code: string;
+    name: string;
+    register?: TranslationRegister; // Missing or 'neutral' leaves the form of address to the model
+}
+
+export interface TranscribeAndTranslateInput {
+    audioBase64: string; // Base64-encoded WAV
+    targets: TargetLanguageMeta[];
+    glossary?: GlossaryTerm[]; // Only entries for the requested targets
+    signal?: AbortSignal;
+}
+
+// Typed or edited text instead of audio; the answer uses the same multi-target shape
+export interface TranslateTextInput {
+    sourceText: string;
+    sourceLanguage?: string; // Display code when already known (e.g. an edited transcript); detected otherwise
+    targets: TargetLanguageMeta[];
+    glossary?: GlossaryTerm[];
+    signal?: AbortSignal;
+}
+
+// Translations to check by translating them back into the source language
+export interface BackTranslateInput {
+    translations: Record<string, string>; // Keyed by target code
+    source: TargetLanguageMeta; // Language to translate back into
+    signal?: AbortSignal;
+}
+
+export interface BackTranslateOutput {
+    backTranslations: Record<string, string>; // Keyed by target code, always contains every requested code
+    usage: any | null;
+    model?: string;
+}
+
+export interface TranscribeAndTranslateOutput {
+    sourceText: string;
+    sourceLanguage: string; // ISO 639-1 code as reported by the model
+    translations: Record<string, string>; // Keyed by target code, always contains every requested target
+    usage: any | null;
+    model?: string; // Set when the model is chosen elsewhere (e.g. by the proxy server); otherwise the provider's own
+}
+
+export interface TranscribeSegmentsOutput {
+    segments: TranscriptSegment[];
+    usage: any | null;
+    model: string;
+}
+
+export interface TranslationProvider {
+    readonly id: TranslationProviderId;
+    readonly label: string; // Human readable, used in logs and error messages
+    readonly model: string;
+    // All methods reject with a ProviderError (see ./errors) so callers can tell failures apart
+    transcribeAndTranslate: (input: TranscribeAndTranslateInput) => Promise<TranscribeAndTranslateOutput>;
+    // Text-only request: no audio tokens, so much cheaper than transcribeAndTranslate
+    translateText: (input: TranslateTextInput) => Promise<TranscribeAndTranslateOutput>;
+    // Text-only quality check: every translation back into the source language in one request
+    backTranslate: (input: BackTranslateInput) => Promise<BackTranslateOutput>;
+    // Optional: timestamped segments of the source speech, for providers that expose them
+    transcribeSegments?: (audioBlob: Blob, signal?: AbortSignal) => Promise<TranscribeSegmentsOutput>;
+}
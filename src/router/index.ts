@@ -2,6 +2,9 @@ import { createRouter, createWebHistory } from 'vue-router';
 import MainView from '../views/MainView.vue';
 import SavedTranscriptsView from '../views/SavedTranscriptsView.vue';
 import SavedTranscriptDetailView from '../views/SavedTranscriptDetailView.vue';
+import ConversationView from '../views/ConversationView.vue';
+import UsageView from '../views/UsageView.vue';
+import StorageView from '../views/StorageView.vue';
 
 const router = createRouter({
   history: createWebHistory(),
@@ -14,6 +17,15 @@ const router = createRouter({
       component: SavedTranscriptDetailView,
       props: route => ({ id: Number(route.params.id) }),
     },
+    { path: '/conversation', name: 'conversation', component: ConversationView },
+    {
+      path: '/conversation/:id',
+      name: 'conversation-detail',
+      component: ConversationView,
+      props: route => ({ id: Number(route.params.id) }),
+    },
+    { path: '/usage', name: 'usage', component: UsageView },
+    { path: '/storage', name: 'storage', component: StorageView },
     { path: '/:pathMatch(.*)*', redirect: '/' },
   ],
   scrollBehavior: () => ({ top: 0 }),
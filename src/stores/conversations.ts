@@ -0,0 +1,149 @@
+import { defineStore } from 'pinia';
+import { ref } from 'vue';
+import { baseLanguage } from '../config/languages';
+import { db, type Conversation, type ConversationSpeaker, type ConversationTurn } from '../db/db';
+import { useTranslationStore } from './translation';
+
+const createTurnId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const useConversationsStore = defineStore('conversations', () => {
+  const items = ref<Conversation[]>([]);
+  const isLoaded = ref(false);
+  const activeSession = ref<Conversation | null>(null);
+  const isProcessingTurn = ref(false);
+  const error = ref<unknown>(null); // Last failed turn; describe with useErrorMessages
+
+  const loadAll = async () => {
+    items.value = await db.conversations.orderBy('updatedAt').reverse().toArray();
+    isLoaded.value = true;
+  };
+
+  const getById = async (id: number) => db.conversations.get(id);
+
+  const persistSession = async (session: Conversation) => {
+    // Copy turns out of the reactive proxies so IndexedDB can structured-clone them
+    const plain: Conversation = { ...session, turns: session.turns.map(turn => ({ ...turn })) };
+    const id = await db.conversations.put(plain);
+    const saved: Conversation = { ...plain, id: Number(id) };
+    items.value = [saved, ...items.value.filter(item => item.id !== saved.id)];
+    return saved;
+  };
+
+  const startSession = async (langA: string, langB: string) => {
+    const now = Date.now();
+    activeSession.value = await persistSession({
+      createdAt: now,
+      updatedAt: now,
+      langA,
+      langB,
+      turns: [],
+    });
+    error.value = null;
+    return activeSession.value;
+  };
+
+  const openSession = async (id: number) => {
+    const found = await getById(id);
+    activeSession.value = found ?? null;
+    error.value = null;
+    return activeSession.value;
+  };
+
+  const closeSession = () => {
+    activeSession.value = null;
+    error.value = null;
+  };
+
+  // Detected language decides who spoke; the turn is translated into the other person's language.
+  // Detection usually names only the language ("pt"), which cannot tell pt-BR and pt-PT speakers apart.
+  const resolveSpeaker = (session: Conversation, detectedLang: string): ConversationSpeaker => {
+    const detected = detectedLang.toLowerCase();
+    if (detected === session.langB.toLowerCase()) return 'b';
+    if (detected === session.langA.toLowerCase()) return 'a';
+    const isB = baseLanguage(session.langB).toLowerCase() === baseLanguage(detected);
+    const isA = baseLanguage(session.langA).toLowerCase() === baseLanguage(detected);
+    if (isB !== isA) return isB ? 'b' : 'a';
+    // Unknown language: assume the speakers alternate
+    const last = session.turns[session.turns.length - 1];
+    return last?.speaker === 'a' ? 'b' : 'a';
+  };
+
+  const addTurnFromAudio = async (audioBlob: Blob) => {
+    const session = activeSession.value;
+    if (!session) throw new Error('No active conversation session.');
+
+    const translationStore = useTranslationStore();
+    isProcessingTurn.value = true;
+    error.value = null;
+
+    try {
+      // Ask for both languages in one request, then keep the one for the listener
+      const result = await translationStore.translateAudio(audioBlob, [session.langA, session.langB]);
+      const speaker = resolveSpeaker(session, result.sourceLang);
+      const targetLang = speaker === 'a' ? session.langB : session.langA;
+
+      const turn: ConversationTurn = {
+        id: createTurnId(),
+        createdAt: Date.now(),
+        speaker,
+        audioBlob,
+        sourceText: result.sourceText,
+        sourceLang: result.sourceLang || (speaker === 'a' ? session.langA : session.langB),
+        targetLang,
+        translatedText: result.translations[targetLang] || '',
+      };
+
+      translationStore.lastUsage = result.usage;
+
+      activeSession.value = await persistSession({
+        ...session,
+        updatedAt: turn.createdAt,
+        turns: [...session.turns, turn],
+      });
+      return turn;
+    } catch (e: any) {
+      console.error('Conversation turn failed:', e);
+      error.value = e;
+      throw e;
+    } finally {
+      isProcessingTurn.value = false;
+    }
+  };
+
+  const removeTurn = async (turnId: string) => {
+    const session = activeSession.value;
+    if (!session) return;
+    activeSession.value = await persistSession({
+      ...session,
+      updatedAt: Date.now(),
+      turns: session.turns.filter(turn => turn.id !== turnId),
+    });
+  };
+
+  const remove = async (id: number) => {
+    await db.conversations.delete(id);
+    items.value = items.value.filter(item => item.id !== id);
+    if (activeSession.value?.id === id) activeSession.value = null;
+  };
+
+  return {
+    items,
+    isLoaded,
+    activeSession,
+    isProcessingTurn,
+    error,
+    loadAll,
+    getById,
+    startSession,
+    openSession,
+    closeSession,
+    addTurnFromAudio,
+    removeTurn,
+    remove,
+  };
+});
@@ -0,0 +1,74 @@
+import { defineStore } from 'pinia';
+import { ref } from 'vue';
+import { baseLanguage } from '../config/languages';
+import { db, type GlossaryEntry } from '../db/db';
+import type { GlossaryTerm } from '../providers';
+
+type GlossaryEntryInput = Pick<GlossaryEntry, 'sourceLang' | 'targetLang' | 'sourceTerm' | 'targetTerm'>;
+
+const cleanInput = (input: GlossaryEntryInput): GlossaryEntryInput => ({
+  sourceLang: input.sourceLang || null,
+  targetLang: input.targetLang,
+  sourceTerm: input.sourceTerm.trim(),
+  targetTerm: input.targetTerm.trim(),
+});
+
+export const useGlossaryStore = defineStore('glossary', () => {
+  const items = ref<GlossaryEntry[]>([]);
+  const isLoaded = ref(false);
+  let loadPromise: Promise<void> | null = null;
+
+  const loadAll = async () => {
+    const rows = await db.glossary.toArray();
+    items.value = rows.sort(
+      (a, b) => a.targetLang.localeCompare(b.targetLang) || a.sourceTerm.localeCompare(b.sourceTerm)
+    );
+    isLoaded.value = true;
+  };
+
+  const ensureLoaded = async () => {
+    if (isLoaded.value) return;
+    if (!loadPromise) loadPromise = loadAll().finally(() => (loadPromise = null));
+    return loadPromise;
+  };
+
+  const add = async (input: GlossaryEntryInput) => {
+    const now = Date.now();
+    const entry: GlossaryEntry = { ...cleanInput(input), createdAt: now, updatedAt: now };
+    if (!entry.sourceTerm || !entry.targetTerm) throw new Error('Both terms are required.');
+    await db.glossary.add(entry);
+    await loadAll();
+  };
+
+  const update = async (id: number, input: GlossaryEntryInput) => {
+    const patch = { ...cleanInput(input), updatedAt: Date.now() };
+    if (!patch.sourceTerm || !patch.targetTerm) throw new Error('Both terms are required.');
+    await db.glossary.update(id, patch);
+    await loadAll();
+  };
+
+  const remove = async (id: number) => {
+    await db.glossary.delete(id);
+    items.value = items.value.filter(item => item.id !== id);
+  };
+
+  // Plain copies of the entries relevant to a request. Entries are per language, so an "en" term applies to
+  // both en-US and en-GB; each copy carries the target's locale code, the key its translation comes back under.
+  const termsForTargets = (targetCodes: string[]): GlossaryTerm[] =>
+    targetCodes.flatMap(code =>
+      items.value
+        .filter(item => item.targetLang === code || item.targetLang === baseLanguage(code))
+        .map(({ sourceLang, sourceTerm, targetTerm }) => ({ sourceLang, targetLang: code, sourceTerm, targetTerm }))
+    );
+
+  return {
+    items,
+    isLoaded,
+    loadAll,
+    ensureLoaded,
+    add,
+    update,
+    remove,
+    termsForTargets,
+  };
+});
@@ -0,0 +1,157 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { db, type PendingJob } from '../db/db';
+import { useTranscriptionsStore } from './transcriptions';
+import { useTranslationStore } from './translation';
+import { cloneGlossaryMisses } from '../utils/glossary';
+import { useErrorMessages } from '../composables/useErrorMessages';
+
+type EnqueueInput = {
+  audioBlob: Blob;
+  targetCodes: string[];
+  variantGroupId?: string | null;
+  variantOfId?: number | null;
+  sourceFileName?: string;
+};
+
+export const usePendingJobsStore = defineStore('pendingJobs', () => {
+  const items = ref<PendingJob[]>([]);
+  const isLoaded = ref(false);
+  const isRunning = ref(false);
+  const { describeError } = useErrorMessages();
+  let loadPromise: Promise<void> | null = null;
+
+  const queuedCount = computed(() => items.value.filter(job => job.status !== 'failed').length);
+
+  const patchLocal = (id: number, patch: Partial<PendingJob>) => {
+    items.value = items.value.map(job => (job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const setStatus = async (id: number, patch: Partial<PendingJob>) => {
+    const next = { ...patch, updatedAt: Date.now() };
+    await db.pendingJobs.update(id, next);
+    patchLocal(id, next);
+  };
+
+  const ensureLoaded = async () => {
+    if (isLoaded.value) return;
+    if (loadPromise) return loadPromise;
+
+    loadPromise = (async () => {
+      try {
+        // A job left in 'processing' means the app was closed mid-request; run it again.
+        await db.pendingJobs.where('status').equals('processing').modify({ status: 'queued' });
+        items.value = await db.pendingJobs.orderBy('createdAt').toArray();
+      } catch (error) {
+        console.error('Failed to load pending jobs:', error);
+      } finally {
+        isLoaded.value = true;
+        loadPromise = null;
+      }
+    })();
+
+    return loadPromise;
+  };
+
+  const enqueue = async (input: EnqueueInput) => {
+    await ensureLoaded();
+    const now = Date.now();
+    const job: Omit<PendingJob, 'id'> = {
+      createdAt: now,
+      updatedAt: now,
+      audioBlob: input.audioBlob,
+      targetCodes: [...input.targetCodes],
+      status: 'queued',
+      error: null,
+      attempts: 0,
+      variantGroupId: input.variantGroupId ?? null,
+      variantOfId: input.variantOfId ?? null,
+      ...(input.sourceFileName ? { sourceFileName: input.sourceFileName } : {}),
+    };
+    const id = await db.pendingJobs.add(job);
+    const saved: PendingJob = { ...job, id: Number(id) };
+    items.value.push(saved);
+    return saved;
+  };
+
+  const processJob = async (job: PendingJob) => {
+    if (job.id === undefined) return;
+    const translationStore = useTranslationStore();
+    const transcriptionsStore = useTranscriptionsStore();
+
+    await setStatus(job.id, { status: 'processing', error: null, attempts: job.attempts + 1 });
+    try {
+      const result = await translationStore.translateAudio(job.audioBlob, job.targetCodes);
+      await transcriptionsStore.addNew(
+        {
+          audioBlob: job.audioBlob,
+          sourceText: result.sourceText,
+          sourceLang: result.sourceLang,
+          targetCodes: [...job.targetCodes],
+          translations: { ...result.translations },
+          segments: result.segments.map(segment => ({ ...segment })),
+          glossaryMisses: cloneGlossaryMisses(result.glossaryMisses),
+          registers: { ...result.registers },
+          sourceFileName: job.sourceFileName,
+        },
+        job.variantGroupId
+          ? { variantGroupId: job.variantGroupId, variantOfId: job.variantOfId }
+          : undefined
+      );
+      await db.pendingJobs.delete(job.id);
+      items.value = items.value.filter(item => item.id !== job.id);
+    } catch (error: any) {
+      console.error('Pending job failed:', error);
+      // Lost the connection again: keep the job queued for the next `online` event.
+      if (!navigator.onLine) {
+        await setStatus(job.id, { status: 'queued', error: null });
+        return;
+      }
+      await setStatus(job.id, { status: 'failed', error: describeError(error) });
+    }
+  };
+
+  // Processes queued jobs one at a time, oldest first. Failed jobs wait for an explicit retry.
+  const processQueue = async () => {
+    await ensureLoaded();
+    if (isRunning.value) return;
+    if (!navigator.onLine) return;
+
+    isRunning.value = true;
+    try {
+      while (navigator.onLine) {
+        const next = items.value.find(job => job.status === 'queued');
+        if (!next) break;
+        await processJob(next);
+      }
+    } finally {
+      isRunning.value = false;
+    }
+  };
+
+  const retry = async (id: number) => {
+    await setStatus(id, { status: 'queued', error: null });
+    void processQueue();
+  };
+
+  const remove = async (id: number) => {
+    await db.pendingJobs.delete(id);
+    items.value = items.value.filter(job => job.id !== id);
+  };
+
+  window.addEventListener('online', () => {
+    void processQueue();
+  });
+
+  return {
+    items,
+    isLoaded,
+    isRunning,
+    queuedCount,
+    ensureLoaded,
+    enqueue,
+    processQueue,
+    retry,
+    remove,
+  };
+});
@@ -1,22 +1,184 @@
 import { defineStore } from 'pinia';
 import { computed, ref } from 'vue';
-import { db, type AppMode, type AppSettings } from '../db/db';
+import { MIN_CHUNK_SECONDS } from '../utils/audioChunks';
+import { DEFAULT_SPEECH_THRESHOLD_DB, MAX_SPEECH_THRESHOLD_DB, MIN_SPEECH_THRESHOLD_DB } from '../utils/voiceActivity';
+import { deriveSecretKey, openSecret, sealSecret, type SecretKey } from '../utils/secretBox';
+import {
+  db,
+  type AppMode,
+  type AppSettings,
+  type AudioRetentionSettings,
+  type EncryptedSecret,
+  type MistralConnection,
+  type ModelPrice,
+  type OpenAICompatibleSettings,
+  type ProfileSettings,
+  type ProxySettings,
+  type SettingsProfile,
+  type SyncSettings,
+  type TranslationProviderId,
+  type TranslationRegister,
+  type TtsEngineId,
+  type VoiceActivitySettings,
+} from '../db/db';
 
 const SETTINGS_ID = 'app' as const;
+const DEFAULT_PROFILE_NAME = 'Default';
+const MAX_PROFILE_NAME_LENGTH = 40;
+
+// AppSettings fields that a profile stores; changing one writes through to the active profile
+const PROFILE_KEYS = new Set<string>([
+  'sourceLang',
+  'targetLang',
+  'extendedTargetLangs',
+  'targetRegisters',
+  'ttsVoices',
+  'ttsEngines',
+  'provider',
+  'openaiCompatible',
+  'verifyTranslations',
+]);
+
+const createProfileId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+// Starting points for cost estimates; users adjust them to their actual plan on the usage page
+export const createDefaultPriceTable = (): Record<string, ModelPrice> => ({
+  'voxtral-small-latest': { perAudioMinute: 0.004, perMillionPromptTokens: 0.1, perMillionCompletionTokens: 0.3 },
+  'voxtral-mini-latest': { perAudioMinute: 0.001, perMillionPromptTokens: 0.04, perMillionCompletionTokens: 0.04 },
+  'mistral-small-latest': { perAudioMinute: 0, perMillionPromptTokens: 0.1, perMillionCompletionTokens: 0.3 },
+});
 
 const createDefaultSettings = (): AppSettings => ({
   id: SETTINGS_ID,
   mode: 'extended',
   apiKey: null,
+  encryptedSecrets: null,
+  autoLockMinutes: 15,
+  provider: 'mistral',
+  openaiCompatible: {
+    baseUrl: '',
+    model: '',
+    apiKey: null,
+  },
+  mistralConnection: 'direct',
+  proxy: {
+    baseUrl: '',
+    accessToken: null,
+  },
   sourceLang: 'de',
   targetLang: 'fr',
   extendedTargetLangs: [],
+  targetRegisters: {},
   infoLanguage: null,
   ttsVoices: {},
+  ttsEngines: {},
+  piperServerUrl: '',
+  maxChunkSeconds: 120,
+  voiceActivity: {
+    handsFree: false,
+    trimSilence: true,
+    speechThresholdDb: DEFAULT_SPEECH_THRESHOLD_DB,
+    silenceStopSeconds: 1.5,
+    noiseFloorDb: null,
+  },
+  priceTable: createDefaultPriceTable(),
+  monthlyBudget: null,
+  verifyTranslations: false,
+  segmentTimestamps: false,
   hasCompletedLanguageSetup: false,
+  activeProfileId: null,
+  sync: {
+    enabled: false,
+    backend: 'webdav',
+    baseUrl: '',
+    username: '',
+    secret: null,
+  },
+  retention: {
+    dropAudioAfterDays: 0,
+    reencodeToOpus: false,
+  },
   updatedAt: Date.now(),
 });
 
+// Plain copies, so the result can be written to IndexedDB even if `source` is reactive
+const pickProfileSettings = (source: AppSettings): ProfileSettings => ({
+  sourceLang: source.sourceLang,
+  targetLang: source.targetLang,
+  extendedTargetLangs: [...source.extendedTargetLangs],
+  targetRegisters: { ...source.targetRegisters },
+  ttsVoices: { ...source.ttsVoices },
+  ttsEngines: { ...source.ttsEngines },
+  provider: source.provider,
+  openaiCompatibleModel: source.openaiCompatible.model,
+  verifyTranslations: source.verifyTranslations,
+});
+
+// Profiles saved by older versions may miss newer fields; those keep their defaults
+const applyProfileSettings = (target: AppSettings, profile: ProfileSettings): AppSettings => {
+  const { openaiCompatibleModel, ...rest } = { ...pickProfileSettings(createDefaultSettings()), ...profile };
+  return { ...target, ...rest, openaiCompatible: { ...target.openaiCompatible, model: openaiCompatibleModel } };
+};
+
+// Every secret the settings hold. With a passphrase they are sealed together into encryptedSecrets and their
+// plain fields stay null; without one they are stored in those fields.
+interface Secrets {
+  apiKey: string | null;
+  openaiCompatibleApiKey: string | null;
+  proxyAccessToken: string | null;
+  syncSecret: string | null;
+}
+
+const NO_SECRETS: Secrets = { apiKey: null, openaiCompatibleApiKey: null, proxyAccessToken: null, syncSecret: null };
+
+const readPlainSecrets = (source: AppSettings): Secrets => ({
+  apiKey: source.apiKey,
+  openaiCompatibleApiKey: source.openaiCompatible.apiKey,
+  proxyAccessToken: source.proxy.accessToken,
+  syncSecret: source.sync.secret,
+});
+
+const withSecrets = (target: AppSettings, secrets: Secrets): AppSettings => ({
+  ...target,
+  apiKey: secrets.apiKey,
+  openaiCompatible: { ...target.openaiCompatible, apiKey: secrets.openaiCompatibleApiKey },
+  proxy: { ...target.proxy, accessToken: secrets.proxyAccessToken },
+  sync: { ...target.sync, secret: secrets.syncSecret },
+});
+
+const hasAnySecret = (secrets: Secrets) => Object.values(secrets).some(Boolean);
+
+const sameSecrets = (a: Secrets, b: Secrets) =>
+  (Object.keys(NO_SECRETS) as (keyof Secrets)[]).every(field => a[field] === b[field]);
+
+// Older versions sealed only the Mistral key, as plain text, in encryptedApiKey
+interface LegacySettingsRow {
+  encryptedApiKey?: EncryptedSecret | null;
+}
+
+const parseSecrets = (plaintext: string): Secrets => {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (parsed && typeof parsed === 'object') return { ...NO_SECRETS, ...parsed };
+  } catch {
+    // Not JSON: a Mistral key sealed by an older version
+  }
+  return { ...NO_SECRETS, apiKey: plaintext };
+};
+
+// Plain values fill the gaps of sealed ones (rows from versions that sealed only the Mistral key)
+const mergeSecrets = (sealed: Secrets, plain: Secrets): Secrets => ({
+  apiKey: sealed.apiKey ?? plain.apiKey,
+  openaiCompatibleApiKey: sealed.openaiCompatibleApiKey ?? plain.openaiCompatibleApiKey,
+  proxyAccessToken: sealed.proxyAccessToken ?? plain.proxyAccessToken,
+  syncSecret: sealed.syncSecret ?? plain.syncSecret,
+});
+
 const readLegacyLocalStorage = (): Partial<AppSettings> => {
   const legacy: Partial<AppSettings> = {};
 
@@ -67,14 +229,90 @@ export const useSettingsStore = defineStore('settings', () => {
   let loadPromise: Promise<void> | null = null;
 
   const settings = ref<AppSettings>(createDefaultSettings());
+  const profiles = ref<SettingsProfile[]>([]); // Oldest first
+
+  // While a passphrase is set, the decrypted secrets and the key derived from the passphrase live only in
+  // memory; lock() forgets both. The plain secret fields stay null, so nothing plain is ever persisted.
+  const unlockedSecrets = ref<Secrets | null>(null);
+  let passphraseKey: SecretKey | null = null;
+  const isUnlockPromptOpen = ref(false);
+  const isEncryptOfferOpen = ref(false); // Plain secrets from before passphrases existed; asked once
 
   const mode = computed(() => settings.value.mode);
-  const apiKey = computed(() => settings.value.apiKey);
+  const hasPassphrase = computed(() => settings.value.encryptedSecrets !== null);
+  const isLocked = computed(() => hasPassphrase.value && unlockedSecrets.value === null);
+  const secrets = computed(() =>
+    hasPassphrase.value ? (unlockedSecrets.value ?? NO_SECRETS) : readPlainSecrets(settings.value)
+  );
+  const apiKey = computed(() => secrets.value.apiKey);
+  const hasSecrets = computed(() => hasAnySecret(secrets.value));
+  const autoLockMinutes = computed(() => settings.value.autoLockMinutes);
+  // The stored settings with the decrypted secrets filled in; providers and sync are configured from this
+  const providerSettings = computed<AppSettings>(() => withSecrets(settings.value, secrets.value));
+  const provider = computed(() => settings.value.provider);
+  const openaiCompatible = computed(() => providerSettings.value.openaiCompatible);
+  const mistralConnection = computed(() => settings.value.mistralConnection);
+  const proxy = computed(() => providerSettings.value.proxy);
+  const sync = computed(() => providerSettings.value.sync);
+  const retention = computed(() => settings.value.retention);
+
+  // True when the selected provider has everything it needs to send a request.
+  const hasUsableProvider = computed(() => {
+    if (settings.value.provider === 'openai-compatible') {
+      const { baseUrl, model } = settings.value.openaiCompatible;
+      return Boolean(baseUrl.trim() && model.trim());
+    }
+    // The proxy holds the key but refuses callers without its access token; an empty URL means this deployment's api/.
+    // While locked it is not known which secrets are saved; unlocking is asked for when a request is made.
+    if (settings.value.mistralConnection === 'proxy') return isLocked.value || Boolean(secrets.value.proxyAccessToken);
+    const hasSavedKey = isLocked.value || Boolean(secrets.value.apiKey);
+    const hasDevKey = Boolean(import.meta.env.DEV && import.meta.env.VITE_MISTRAL_API_KEY);
+    return hasSavedKey || hasDevKey;
+  });
+
   const sourceLang = computed(() => settings.value.sourceLang);
   const targetLang = computed(() => settings.value.targetLang);
   const extendedTargetLangs = computed(() => settings.value.extendedTargetLangs);
+  const targetRegisters = computed(() => settings.value.targetRegisters);
   const infoLanguage = computed(() => settings.value.infoLanguage);
+  const piperServerUrl = computed(() => settings.value.piperServerUrl);
+  const maxChunkSeconds = computed(() => settings.value.maxChunkSeconds);
+  const voiceActivity = computed(() => settings.value.voiceActivity);
+  const priceTable = computed(() => settings.value.priceTable);
+  const monthlyBudget = computed(() => settings.value.monthlyBudget);
+  const verifyTranslations = computed(() => settings.value.verifyTranslations);
+  const segmentTimestamps = computed(() => settings.value.segmentTimestamps);
   const hasCompletedLanguageSetup = computed(() => settings.value.hasCompletedLanguageSetup);
+  const activeProfile = computed(() => profiles.value.find(p => p.id === settings.value.activeProfileId) ?? null);
+
+  // Part of ensureLoaded, so it writes to the database directly instead of going through update().
+  // The first load after profiles were introduced turns the existing settings into the default profile.
+  const loadProfiles = async () => {
+    const stored = await db.profiles.orderBy('createdAt').toArray();
+    if (stored.length === 0) {
+      const now = Date.now();
+      const profile: SettingsProfile = {
+        id: createProfileId(),
+        name: DEFAULT_PROFILE_NAME,
+        settings: pickProfileSettings(settings.value),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.profiles.put(profile);
+      stored.push(profile);
+    }
+    profiles.value = stored;
+
+    const active = stored.find(p => p.id === settings.value.activeProfileId) ?? stored[0];
+    if (settings.value.activeProfileId === active.id) return;
+    const next: AppSettings = {
+      ...applyProfileSettings(settings.value, active.settings),
+      activeProfileId: active.id,
+      updatedAt: Date.now(),
+    };
+    settings.value = next;
+    await db.settings.put(next);
+  };
 
   const ensureLoaded = async () => {
     if (isLoaded.value) return;
@@ -84,13 +322,38 @@ export const useSettingsStore = defineStore('settings', () => {
       try {
         const existing = await db.settings.get(SETTINGS_ID);
         if (existing) {
-          const next: AppSettings =
-            existing.mode === 'extended'
-              ? existing
-              : { ...existing, mode: 'extended', updatedAt: Date.now() };
+          // Rows written by older versions may miss newer fields; fill them from the defaults.
+          // A Mistral key sealed by an older version moves to encryptedSecrets; plain secrets next to it are
+          // sealed in on the next unlock.
+          const defaults = createDefaultSettings();
+          const { encryptedApiKey, ...current } = existing as AppSettings & LegacySettingsRow;
+          const needsUpgrade =
+            existing.mode !== 'extended' ||
+            encryptedApiKey !== undefined ||
+            Object.keys(defaults).some(key => !(key in existing));
+          const next: AppSettings = needsUpgrade
+            ? {
+                ...defaults,
+                ...current,
+                mode: 'extended',
+                encryptedSecrets: current.encryptedSecrets ?? encryptedApiKey ?? null,
+                openaiCompatible: { ...defaults.openaiCompatible, ...current.openaiCompatible },
+                proxy: { ...defaults.proxy, ...current.proxy },
+                voiceActivity: { ...defaults.voiceActivity, ...current.voiceActivity },
+                sync: { ...defaults.sync, ...current.sync },
+                retention: { ...defaults.retention, ...current.retention },
+                updatedAt: Date.now(),
+              }
+            : existing;
 
           settings.value = next;
           if (next !== existing) await db.settings.put(next);
+          await loadProfiles();
+          // Ask for the passphrase right away; without one, offer to set it once for secrets stored in plain text
+          // by versions that could not encrypt them
+          isUnlockPromptOpen.value = next.encryptedSecrets !== null;
+          isEncryptOfferOpen.value =
+            next.encryptedSecrets === null && !('encryptedSecrets' in existing) && hasAnySecret(readPlainSecrets(next));
           return;
         }
 
@@ -104,6 +367,7 @@ export const useSettingsStore = defineStore('settings', () => {
 
         settings.value = initial;
         await db.settings.put(initial);
+        await loadProfiles();
 
         // Stop relying on localStorage once migrated.
         clearLegacyLocalStorage();
@@ -127,19 +391,214 @@ export const useSettingsStore = defineStore('settings', () => {
     }
   };
 
+  // Secret fields in `patch` are plain values. With a passphrase, changed secrets are sealed again (which needs
+  // them unlocked) and the plain fields are stored as null.
   const update = async (patch: Partial<Omit<AppSettings, 'id'>>) => {
     await ensureLoaded();
-    const next: AppSettings = {
+    let next: AppSettings = {
       ...settings.value,
       ...patch,
       id: SETTINGS_ID,
       updatedAt: Date.now(),
     };
+    if (hasPassphrase.value) {
+      const nextSecrets = readPlainSecrets({ ...providerSettings.value, ...patch });
+      if (sameSecrets(nextSecrets, secrets.value)) {
+        // Plain secrets an older version left next to the sealed ones wait there for the next unlock
+        next = withSecrets(next, readPlainSecrets(settings.value));
+      } else {
+        if (!passphraseKey) throw new Error('Unlock with your passphrase before changing a key, token or password.');
+        const encryptedSecrets = await sealSecret(JSON.stringify(nextSecrets), passphraseKey);
+        next = withSecrets({ ...next, encryptedSecrets }, NO_SECRETS);
+        unlockedSecrets.value = nextSecrets;
+      }
+    }
     await persist(next);
+    await syncActiveProfile(patch);
+  };
+
+  const syncActiveProfile = async (patch: Partial<Omit<AppSettings, 'id'>>) => {
+    const profile = activeProfile.value;
+    if (!profile || !Object.keys(patch).some(key => PROFILE_KEYS.has(key))) return;
+    const updated: SettingsProfile = {
+      id: profile.id,
+      name: profile.name,
+      settings: pickProfileSettings(settings.value),
+      createdAt: profile.createdAt,
+      updatedAt: Date.now(),
+    };
+    profiles.value = profiles.value.map(p => (p.id === updated.id ? updated : p));
+    try {
+      await db.profiles.put(updated);
+    } catch (error) {
+      console.error('Failed to persist the settings profile to IndexedDB:', error);
+    }
+  };
+
+  const switchProfile = async (id: string) => {
+    await ensureLoaded();
+    const profile = profiles.value.find(p => p.id === id);
+    if (!profile || id === settings.value.activeProfileId) return;
+    await persist({
+      ...applyProfileSettings(settings.value, profile.settings),
+      activeProfileId: id,
+      updatedAt: Date.now(),
+    });
+  };
+
+  // Throws an Error with a readable message for empty or duplicate names
+  const checkProfileName = (name: string, exceptId?: string) => {
+    const trimmed = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+    if (!trimmed) throw new Error('Enter a name for the profile.');
+    const taken = profiles.value.some(p => p.id !== exceptId && p.name.toLowerCase() === trimmed.toLowerCase());
+    if (taken) throw new Error(`There is already a profile called "${trimmed}".`);
+    return trimmed;
+  };
+
+  // New profiles start as a copy of the current one and become active
+  const createProfile = async (name: string) => {
+    await ensureLoaded();
+    const now = Date.now();
+    const profile: SettingsProfile = {
+      id: createProfileId(),
+      name: checkProfileName(name),
+      settings: pickProfileSettings(settings.value),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.profiles.put(profile);
+    profiles.value = [...profiles.value, profile];
+    await update({ activeProfileId: profile.id });
+    return profile;
+  };
+
+  const renameProfile = async (id: string, name: string) => {
+    await ensureLoaded();
+    const trimmed = checkProfileName(name, id);
+    const updatedAt = Date.now();
+    await db.profiles.update(id, { name: trimmed, updatedAt });
+    profiles.value = profiles.value.map(p => (p.id === id ? { ...p, name: trimmed, updatedAt } : p));
+  };
+
+  // The last profile cannot be deleted; deleting the active one switches to the oldest remaining
+  const deleteProfile = async (id: string) => {
+    await ensureLoaded();
+    if (profiles.value.length <= 1) throw new Error('The last profile cannot be deleted.');
+    const remaining = profiles.value.filter(p => p.id !== id);
+    if (settings.value.activeProfileId === id) await switchProfile(remaining[0].id);
+    await db.profiles.delete(id);
+    profiles.value = remaining;
   };
 
   const setMode = async (nextMode: AppMode) => update({ mode: nextMode });
+  const forgetUnlockedSecrets = () => {
+    unlockedSecrets.value = null;
+    passphraseKey = null;
+  };
+
+  // With a passphrase set, a new key is encrypted with it (which needs the secrets to be unlocked)
   const setApiKey = async (key: string | null) => update({ apiKey: key });
+
+  // Encrypts the current secrets with a new passphrase (also used to change the passphrase while unlocked)
+  const setPassphrase = async (passphrase: string) => {
+    await ensureLoaded();
+    if (isLocked.value) throw new Error('Unlock with your current passphrase first.');
+    const current = secrets.value;
+    if (!hasAnySecret(current)) throw new Error('Save a key, token or password first.');
+    const nextKey = await deriveSecretKey(passphrase);
+    const encryptedSecrets = await sealSecret(JSON.stringify(current), nextKey);
+    await persist({ ...withSecrets(settings.value, NO_SECRETS), encryptedSecrets, updatedAt: Date.now() });
+    passphraseKey = nextKey;
+    unlockedSecrets.value = current;
+    isEncryptOfferOpen.value = false;
+  };
+
+  // Stores the secrets in plain text again; only possible while unlocked
+  const removePassphrase = async () => {
+    await ensureLoaded();
+    if (!hasPassphrase.value) return;
+    if (isLocked.value) throw new Error('Unlock with your passphrase first.');
+    const current = secrets.value;
+    forgetUnlockedSecrets();
+    await persist({ ...withSecrets(settings.value, current), encryptedSecrets: null, updatedAt: Date.now() });
+  };
+
+  // For a forgotten passphrase: drops the passphrase together with everything it protects
+  const forgetSecrets = async () => {
+    await ensureLoaded();
+    forgetUnlockedSecrets();
+    isUnlockPromptOpen.value = false;
+    await persist({ ...withSecrets(settings.value, NO_SECRETS), encryptedSecrets: null, updatedAt: Date.now() });
+  };
+
+  // Resolves false for a wrong passphrase. Plain secrets left next to the sealed ones by older versions are
+  // sealed in now, so they stop being stored in plain text.
+  const unlock = async (passphrase: string) => {
+    await ensureLoaded();
+    const sealed = settings.value.encryptedSecrets;
+    if (!sealed) return true;
+    let derived: SecretKey;
+    let opened: Secrets;
+    try {
+      derived = await deriveSecretKey(passphrase, sealed.salt, sealed.iterations);
+      opened = parseSecrets(await openSecret(sealed, derived));
+    } catch (error) {
+      console.warn('Could not unlock the secrets:', error);
+      return false;
+    }
+    passphraseKey = derived;
+    isUnlockPromptOpen.value = false;
+    const stray = readPlainSecrets(settings.value);
+    if (!hasAnySecret(stray)) {
+      unlockedSecrets.value = opened;
+      return true;
+    }
+    const merged = mergeSecrets(opened, stray);
+    const encryptedSecrets = await sealSecret(JSON.stringify(merged), derived);
+    unlockedSecrets.value = merged;
+    await persist({ ...withSecrets(settings.value, NO_SECRETS), encryptedSecrets, updatedAt: Date.now() });
+    return true;
+  };
+
+  const lock = () => {
+    if (isLocked.value || !hasPassphrase.value) return;
+    forgetUnlockedSecrets();
+  };
+
+  const openUnlockPrompt = () => {
+    if (isLocked.value) isUnlockPromptOpen.value = true;
+  };
+  const closeUnlockPrompt = () => {
+    isUnlockPromptOpen.value = false;
+  };
+  const closeEncryptOffer = () => {
+    isEncryptOfferOpen.value = false;
+  };
+
+  const setAutoLockMinutes = async (minutes: number) =>
+    update({ autoLockMinutes: Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : 0 });
+  const setProvider = async (next: TranslationProviderId) => update({ provider: next });
+  // Nested settings holding a secret are patched on top of the decrypted values, so the secret stays as it is
+  const setOpenAICompatible = async (patch: Partial<OpenAICompatibleSettings>) => {
+    await ensureLoaded();
+    await update({ openaiCompatible: { ...openaiCompatible.value, ...patch } });
+  };
+  const setMistralConnection = async (next: MistralConnection) => update({ mistralConnection: next });
+  const setProxy = async (patch: Partial<ProxySettings>) => {
+    await ensureLoaded();
+    await update({ proxy: { ...proxy.value, ...patch } });
+  };
+  const setSync = async (patch: Partial<SyncSettings>) => {
+    await ensureLoaded();
+    await update({ sync: { ...sync.value, ...patch } });
+  };
+  const setRetention = async (patch: Partial<AudioRetentionSettings>) => {
+    await ensureLoaded();
+    const next = { ...settings.value.retention, ...patch };
+    const days = Number(next.dropAudioAfterDays);
+    next.dropAudioAfterDays = Number.isFinite(days) && days > 0 ? Math.round(days) : 0;
+    await update({ retention: next });
+  };
   const setSourceLang = async (lang: string | null) => update({ sourceLang: lang });
   const setTargetLang = async (lang: string) => update({ targetLang: lang });
   const setExtendedTargetLangs = async (langs: string[]) => {
@@ -151,34 +610,129 @@ export const useSettingsStore = defineStore('settings', () => {
     });
     await update({ extendedTargetLangs: unique.slice(0, 10) });
   };
+  const getTargetRegister = (code: string): TranslationRegister => settings.value.targetRegisters[code] ?? 'neutral';
+  const setTargetRegisters = async (registers: Record<string, TranslationRegister>) => {
+    const stored = Object.fromEntries(Object.entries(registers).filter(([, register]) => register !== 'neutral'));
+    await update({ targetRegisters: stored });
+  };
   const setInfoLanguage = async (lang: string | null) => update({ infoLanguage: lang });
   const setHasCompletedLanguageSetup = async (value: boolean) => update({ hasCompletedLanguageSetup: value });
 
-  const getTtsVoice = (lang: string): string | undefined => settings.value.ttsVoices[lang];
-  const setTtsVoice = async (lang: string, voiceURI: string) => {
+  // Browser voices keep their historical plain `lang` key; other engines are namespaced (e.g. `piper:fr-FR`).
+  const ttsVoiceKey = (lang: string, engine: TtsEngineId) => (engine === 'browser' ? lang : `${engine}:${lang}`);
+
+  const getTtsVoice = (lang: string, engine: TtsEngineId = 'browser'): string | undefined =>
+    settings.value.ttsVoices[ttsVoiceKey(lang, engine)];
+  const setTtsVoice = async (lang: string, voice: string, engine: TtsEngineId = 'browser') => {
     await ensureLoaded();
-    await update({ ttsVoices: { ...settings.value.ttsVoices, [lang]: voiceURI } });
+    await update({ ttsVoices: { ...settings.value.ttsVoices, [ttsVoiceKey(lang, engine)]: voice } });
+  };
+
+  const getTtsEngine = (lang: string): TtsEngineId => settings.value.ttsEngines[lang] ?? 'browser';
+  const setTtsEngine = async (lang: string, engine: TtsEngineId) => {
+    await ensureLoaded();
+    await update({ ttsEngines: { ...settings.value.ttsEngines, [lang]: engine } });
+  };
+
+  const setPiperServerUrl = async (url: string) => update({ piperServerUrl: url });
+
+  // 0 turns chunking off; anything else is raised to the smallest chunk that still leaves room for the overlap
+  const setMaxChunkSeconds = async (seconds: number) => {
+    const value = Number.isFinite(seconds) && seconds > 0 ? Math.max(MIN_CHUNK_SECONDS, Math.round(seconds)) : 0;
+    await update({ maxChunkSeconds: value });
+  };
+
+  const setVoiceActivity = async (patch: Partial<VoiceActivitySettings>) => {
+    await ensureLoaded();
+    const next = { ...settings.value.voiceActivity, ...patch };
+    next.speechThresholdDb = Math.min(MAX_SPEECH_THRESHOLD_DB, Math.max(MIN_SPEECH_THRESHOLD_DB, next.speechThresholdDb));
+    next.silenceStopSeconds = Math.min(10, Math.max(0.5, next.silenceStopSeconds));
+    await update({ voiceActivity: next });
+  };
+
+  const setPriceTable = async (table: Record<string, ModelPrice>) => {
+    const copy: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(table)) copy[model] = { ...price };
+    await update({ priceTable: copy });
   };
+  const setMonthlyBudget = async (budget: number | null) =>
+    update({ monthlyBudget: budget !== null && Number.isFinite(budget) && budget > 0 ? budget : null });
+  const setVerifyTranslations = async (value: boolean) => update({ verifyTranslations: value });
+  const setSegmentTimestamps = async (value: boolean) => update({ segmentTimestamps: value });
 
   return {
     isLoaded,
     settings,
     mode,
     apiKey,
+    hasPassphrase,
+    hasSecrets,
+    isLocked,
+    isUnlockPromptOpen,
+    isEncryptOfferOpen,
+    autoLockMinutes,
+    providerSettings,
+    provider,
+    openaiCompatible,
+    mistralConnection,
+    proxy,
+    sync,
+    retention,
+    hasUsableProvider,
     sourceLang,
     targetLang,
     extendedTargetLangs,
+    targetRegisters,
     infoLanguage,
+    piperServerUrl,
+    maxChunkSeconds,
+    voiceActivity,
+    priceTable,
+    monthlyBudget,
+    verifyTranslations,
+    segmentTimestamps,
     hasCompletedLanguageSetup,
+    profiles,
+    activeProfile,
     ensureLoaded,
     setMode,
     setApiKey,
+    setPassphrase,
+    removePassphrase,
+    forgetSecrets,
+    unlock,
+    lock,
+    openUnlockPrompt,
+    closeUnlockPrompt,
+    closeEncryptOffer,
+    setAutoLockMinutes,
+    setProvider,
+    setOpenAICompatible,
+    setMistralConnection,
+    setProxy,
+    setSync,
+    setRetention,
     setSourceLang,
     setTargetLang,
     setExtendedTargetLangs,
+    getTargetRegister,
+    setTargetRegisters,
     setInfoLanguage,
     setHasCompletedLanguageSetup,
     getTtsVoice,
     setTtsVoice,
+    getTtsEngine,
+    setTtsEngine,
+    setPiperServerUrl,
+    setMaxChunkSeconds,
+    setVoiceActivity,
+    setPriceTable,
+    setMonthlyBudget,
+    setVerifyTranslations,
+    setSegmentTimestamps,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile,
   };
 });
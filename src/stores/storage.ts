@@ -0,0 +1,221 @@
+import { defineStore } from 'pinia';
+import { ref } from 'vue';
+import { db, type Transcription } from '../db/db';
+import { decodeAudioBlob } from '../utils/audioChunks';
+import { OPUS_SAMPLE_RATE, canEncodeOpus, encodeOpus } from '../utils/opus';
+import { useSettingsStore } from './settings';
+import { useTranscriptionsStore } from './transcriptions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StorageArea = 'transcriptions' | 'conversations' | 'pendingJobs' | 'ttsCache';
+
+export interface StorageBucket {
+  count: number;
+  audioBytes: number;
+  dataBytes: number; // Text and metadata, measured as UTF-8 JSON; IndexedDB's own overhead is not included
+}
+
+export interface StoredRecording {
+  id: number;
+  createdAt: number;
+  sourceText: string;
+  audioType: string;
+  audioBytes: number;
+  dataBytes: number;
+}
+
+export interface RetentionResult {
+  audioRemoved: number;
+  reencoded: number;
+  freedBytes: number;
+}
+
+const emptyBuckets = (): Record<StorageArea, StorageBucket> => ({
+  transcriptions: { count: 0, audioBytes: 0, dataBytes: 0 },
+  conversations: { count: 0, audioBytes: 0, dataBytes: 0 },
+  pendingJobs: { count: 0, audioBytes: 0, dataBytes: 0 },
+  ttsCache: { count: 0, audioBytes: 0, dataBytes: 0 },
+});
+
+const jsonBytes = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+// useAudioRecorder prefers WAV, so most microphone recordings are uncompressed
+const isWav = (type: string) => /^audio\/(x-)?wav/i.test(type);
+
+// Retention is a per-device choice, not an edit: keeping updatedAt stops sync from treating it as one
+const unchangedVersion = (item: Transcription) => ({ updatedAt: item.updatedAt ?? item.createdAt });
+
+export const useStorageStore = defineStore('storage', () => {
+  const settingsStore = useSettingsStore();
+  const buckets = ref(emptyBuckets());
+  const recordings = ref<StoredRecording[]>([]); // Saved transcripts with audio, largest first
+  const estimate = ref<{ usage: number; quota: number } | null>(null); // null if the browser does not report it
+  const isPersisted = ref<boolean | null>(null); // null if the browser has no persistent storage API
+  const canReencode = ref(false);
+  const isScanning = ref(false);
+  const isApplying = ref(false);
+
+  const scan = async () => {
+    if (isScanning.value) return;
+    isScanning.value = true;
+    try {
+      const next = emptyBuckets();
+      const nextRecordings: StoredRecording[] = [];
+      const add = (area: StorageArea, audioBytes: number, dataBytes: number) => {
+        next[area].count++;
+        next[area].audioBytes += audioBytes;
+        next[area].dataBytes += dataBytes;
+      };
+
+      await db.transcriptions.each(item => {
+        const { audioBlob, searchWords: _searchWords, ...rest } = item;
+        const audioBytes = audioBlob?.size ?? 0;
+        const dataBytes = jsonBytes(rest);
+        add('transcriptions', audioBytes, dataBytes);
+        if (audioBlob && item.id !== undefined) {
+          nextRecordings.push({
+            id: item.id,
+            createdAt: item.createdAt,
+            sourceText: item.sourceText,
+            audioType: audioBlob.type,
+            audioBytes,
+            dataBytes,
+          });
+        }
+      });
+      await db.conversations.each(session => {
+        const turns = session.turns.map(({ audioBlob: _audioBlob, ...turn }) => turn);
+        const audioBytes = session.turns.reduce((sum, turn) => sum + (turn.audioBlob?.size ?? 0), 0);
+        add('conversations', audioBytes, jsonBytes({ ...session, turns }));
+      });
+      await db.pendingJobs.each(({ audioBlob, ...rest }) => add('pendingJobs', audioBlob.size, jsonBytes(rest)));
+      await db.ttsCache.each(({ audioBlob, ...rest }) => add('ttsCache', audioBlob.size, jsonBytes(rest)));
+
+      buckets.value = next;
+      recordings.value = nextRecordings.sort((a, b) => b.audioBytes - a.audioBytes);
+
+      if (navigator.storage?.estimate) {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        estimate.value = { usage, quota };
+      }
+      if (navigator.storage?.persisted) isPersisted.value = await navigator.storage.persisted();
+      canReencode.value = (await canEncodeOpus()) && new Audio().canPlayType('audio/ogg; codecs=opus') !== '';
+    } catch (error) {
+      console.error('Failed to measure storage:', error);
+    } finally {
+      isScanning.value = false;
+    }
+  };
+
+  // Persistent storage is not evicted when the device runs low on space. Chromium decides on its own
+  // (installed PWAs usually get it); Firefox asks the user once.
+  const requestPersistence = async () => {
+    if (!navigator.storage?.persist) return false;
+    try {
+      isPersisted.value = (await navigator.storage.persisted()) || (await navigator.storage.persist());
+    } catch (error) {
+      console.error('Failed to request persistent storage:', error);
+    }
+    return isPersisted.value === true;
+  };
+
+  const dropTranscriptionAudio = async (item: Transcription) => {
+    if (item.id === undefined || !item.audioBlob) return 0;
+    await db.transcriptions.update(item.id, { audioBlob: undefined, audioRemovedAt: Date.now(), ...unchangedVersion(item) });
+    return item.audioBlob.size;
+  };
+
+  // Returns the bytes saved; 0 if the Opus version is not smaller
+  const reencodeTranscriptionAudio = async (item: Transcription) => {
+    if (item.id === undefined || !item.audioBlob) return 0;
+    const buffer = await decodeAudioBlob(item.audioBlob, OPUS_SAMPLE_RATE);
+    if (buffer.length === 0) return 0;
+    const encoded = await encodeOpus(buffer);
+    if (encoded.size >= item.audioBlob.size) return 0;
+    await db.transcriptions.update(item.id, { audioBlob: encoded, ...unchangedVersion(item) });
+    return item.audioBlob.size - encoded.size;
+  };
+
+  const refreshTranscriptions = async () => {
+    const transcriptionsStore = useTranscriptionsStore();
+    if (transcriptionsStore.isLoaded) await transcriptionsStore.loadAll();
+  };
+
+  const removeAudio = async (id: number) => {
+    const item = await db.transcriptions.get(id);
+    if (!item) return;
+    await dropTranscriptionAudio(item);
+    await refreshTranscriptions();
+    await scan();
+  };
+
+  // Applies the rules from Settings: audio older than the limit is removed (saved transcripts and
+  // conversation turns keep their text), then the remaining WAV recordings are re-encoded to Opus.
+  // Runs one record at a time; a record that fails is skipped and tried again next time.
+  const applyRetention = async (): Promise<RetentionResult> => {
+    const result: RetentionResult = { audioRemoved: 0, reencoded: 0, freedBytes: 0 };
+    await settingsStore.ensureLoaded();
+    if (isApplying.value) return result;
+    const { dropAudioAfterDays, reencodeToOpus } = settingsStore.retention;
+    if (dropAudioAfterDays <= 0 && !reencodeToOpus) return result;
+
+    isApplying.value = true;
+    try {
+      if (dropAudioAfterDays > 0) {
+        const cutoff = Date.now() - dropAudioAfterDays * DAY_MS;
+        const expired = await db.transcriptions.where('createdAt').below(cutoff).filter(item => Boolean(item.audioBlob)).toArray();
+        for (const item of expired) {
+          result.freedBytes += await dropTranscriptionAudio(item);
+          result.audioRemoved++;
+        }
+
+        const sessions = await db.conversations.filter(session => session.turns.some(turn => turn.audioBlob && turn.createdAt < cutoff)).toArray();
+        for (const session of sessions) {
+          if (session.id === undefined) continue;
+          const turns = session.turns.map(turn => {
+            if (!turn.audioBlob || turn.createdAt >= cutoff) return turn;
+            result.freedBytes += turn.audioBlob.size;
+            result.audioRemoved++;
+            return { ...turn, audioBlob: null };
+          });
+          await db.conversations.update(session.id, { turns });
+        }
+      }
+
+      if (reencodeToOpus && (await canEncodeOpus())) {
+        const candidates = await db.transcriptions.filter(item => Boolean(item.audioBlob && isWav(item.audioBlob.type))).toArray();
+        for (const item of candidates) {
+          try {
+            const saved = await reencodeTranscriptionAudio(item);
+            if (saved > 0) {
+              result.freedBytes += saved;
+              result.reencoded++;
+            }
+          } catch (error) {
+            console.error(`Failed to re-encode the audio of transcript ${item.id}:`, error);
+          }
+        }
+      }
+    } finally {
+      isApplying.value = false;
+    }
+
+    if (result.audioRemoved > 0 || result.reencoded > 0) await refreshTranscriptions();
+    return result;
+  };
+
+  return {
+    buckets,
+    recordings,
+    estimate,
+    isPersisted,
+    canReencode,
+    isScanning,
+    isApplying,
+    scan,
+    requestPersistence,
+    removeAudio,
+    applyRetention,
+  };
+});
@@ -0,0 +1,289 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { db, type SyncStateEntry, type Transcription } from '../db/db';
+import { resolveSyncBackend, type SyncBackend, type SyncDocument } from '../sync';
+import { assertSyncDocument, createdAtOfKey, fromSyncDocument, syncKeyOf, toSyncDocument, toTombstone } from '../sync/document';
+import { useSettingsStore } from './settings';
+import { useTranscriptionsStore } from './transcriptions';
+import { useErrorMessages } from '../composables/useErrorMessages';
+
+export type SyncStatus = 'synced' | 'pending' | 'error';
+
+// Shared by one sync run; the maps grow as records are pulled so later variants can link to them
+type SyncRun = {
+  backend: SyncBackend;
+  remote: Map<string, string>; // key → version from the listing
+  localByKey: Map<string, Transcription>;
+  keyById: Map<number, string>;
+  idByKey: Map<string, number>;
+};
+
+const emptyState = (key: string): SyncStateEntry => ({
+  key,
+  syncedUpdatedAt: null,
+  remoteVersion: null,
+  remoteAudioFile: null,
+  deletedAt: null,
+  error: null,
+  lastSyncedAt: null,
+});
+
+const localVersionOf = (item: Transcription) => item.updatedAt ?? item.createdAt;
+
+export const useSyncStore = defineStore('sync', () => {
+  const settingsStore = useSettingsStore();
+  const states = ref<Record<string, SyncStateEntry>>({});
+  const isSyncing = ref(false);
+  const lastSyncAt = ref<number | null>(null);
+  const lastError = ref<string | null>(null);
+  const { describeError } = useErrorMessages();
+
+  const isEnabled = computed(() => settingsStore.sync.enabled && Boolean(settingsStore.sync.baseUrl.trim()));
+
+  const loadStates = async () => {
+    const entries = await db.syncState.toArray();
+    states.value = Object.fromEntries(entries.map(entry => [entry.key, entry]));
+  };
+
+  const saveState = async (key: string, patch: Partial<SyncStateEntry>) => {
+    const next: SyncStateEntry = { ...(states.value[key] ?? emptyState(key)), ...patch };
+    await db.syncState.put(next);
+    states.value = { ...states.value, [key]: next };
+  };
+
+  const dropState = async (key: string) => {
+    await db.syncState.delete(key);
+    const { [key]: _dropped, ...rest } = states.value;
+    states.value = rest;
+  };
+
+  const statusOf = (item: Transcription): SyncStatus => {
+    const state = states.value[syncKeyOf(item)];
+    if (state?.error) return 'error';
+    return state?.syncedUpdatedAt === localVersionOf(item) ? 'synced' : 'pending';
+  };
+
+  const errorOf = (item: Transcription) => states.value[syncKeyOf(item)]?.error ?? null;
+
+  const remember = (run: SyncRun, key: string, item: Transcription) => {
+    run.localByKey.set(key, item);
+    if (item.id === undefined) return;
+    run.keyById.set(item.id, key);
+    run.idByKey.set(key, item.id);
+  };
+
+  const push = async (run: SyncRun, key: string, local: Transcription) => {
+    const variantOfKey = local.variantOfId != null ? run.keyById.get(local.variantOfId) ?? null : null;
+    const document = toSyncDocument(local, variantOfKey);
+    const remoteAudioFile = states.value[key]?.remoteAudioFile ?? null;
+    let audioFile = document.transcript?.audioFile ?? null;
+    // Audio is uploaded once, and again only if it was re-encoded here (the file name follows the format)
+    if (local.audioBlob && audioFile && audioFile !== remoteAudioFile) {
+      await run.backend.putAudio(audioFile, local.audioBlob);
+    }
+    // Audio removed here to save space stays available to other devices
+    if (!audioFile && remoteAudioFile && document.transcript) {
+      audioFile = remoteAudioFile;
+      document.transcript.audioFile = remoteAudioFile;
+    }
+    const version = await run.backend.putDocument(document);
+    if (remoteAudioFile && remoteAudioFile !== audioFile) await run.backend.deleteAudio(remoteAudioFile);
+    await saveState(key, {
+      syncedUpdatedAt: document.updatedAt,
+      remoteVersion: version,
+      remoteAudioFile: audioFile,
+      deletedAt: null,
+      error: null,
+      lastSyncedAt: Date.now(),
+    });
+  };
+
+  const pushTombstone = async (run: SyncRun, key: string, deletedAt: number) => {
+    const remoteAudioFile = states.value[key]?.remoteAudioFile;
+    if (remoteAudioFile) await run.backend.deleteAudio(remoteAudioFile);
+    const version = await run.backend.putDocument(toTombstone(key, deletedAt));
+    await saveState(key, {
+      syncedUpdatedAt: deletedAt,
+      remoteVersion: version,
+      remoteAudioFile: null,
+      error: null,
+      lastSyncedAt: Date.now(),
+    });
+  };
+
+  // Writes a remote document into the local record with the same key (or a new one)
+  const applyRemote = async (run: SyncRun, key: string, document: SyncDocument, local: Transcription | undefined) => {
+    const transcript = document.transcript;
+    if (!transcript) return;
+
+    let audioBlob = local?.audioBlob ?? null;
+    if (!audioBlob && transcript.audioFile && !local?.audioRemovedAt) {
+      const fetched = await run.backend.getAudio(transcript.audioFile);
+      audioBlob = fetched.type ? fetched : new Blob([fetched], { type: transcript.audioType });
+    }
+    const variantOfId = document.variantOfKey ? run.idByKey.get(document.variantOfKey) ?? null : null;
+    const record = fromSyncDocument(document, variantOfId, audioBlob);
+
+    if (local?.id !== undefined) {
+      // Fields the remote copy no longer has (e.g. a removed quality check) are cleared; device-local ones stay
+      const keep = ['id', 'searchWords', 'audioRemovedAt'];
+      const cleared = Object.fromEntries(
+        Object.keys(local)
+          .filter(field => !(field in record) && !keep.includes(field))
+          .map(field => [field, undefined])
+      );
+      await db.transcriptions.update(local.id, { ...cleared, ...record } as Partial<Transcription>);
+      remember(run, key, { ...record, id: local.id });
+    } else {
+      const id = Number(await db.transcriptions.add(record));
+      remember(run, key, { ...record, id });
+    }
+  };
+
+  // The losing side of a conflict is kept as a new variant of the winner, so no edit is lost
+  const keepAsVariant = async (source: Transcription, parentId: number) => {
+    const { id: _id, searchWords: _searchWords, ...copy } = source;
+    const now = Date.now();
+    await db.transcriptions.add({ ...copy, createdAt: now, updatedAt: now, variantOfId: parentId });
+  };
+
+  const pull = async (run: SyncRun, key: string, version: string, local: Transcription | undefined) => {
+    const document = assertSyncDocument((await run.backend.getDocument(key)).document);
+    const syncedState = { remoteVersion: version, error: null, lastSyncedAt: Date.now() };
+
+    if (document.deleted) {
+      if (local?.id !== undefined) await db.transcriptions.delete(local.id);
+      run.localByKey.delete(key);
+      await saveState(key, { ...syncedState, syncedUpdatedAt: document.updatedAt, deletedAt: document.updatedAt, remoteAudioFile: null });
+      return;
+    }
+    // An unchanged updatedAt means this is our own push seen in a listing; only the version is new
+    if (!local || localVersionOf(local) !== document.updatedAt) {
+      await applyRemote(run, key, document, local);
+    }
+    await saveState(key, {
+      ...syncedState,
+      syncedUpdatedAt: document.updatedAt,
+      deletedAt: null,
+      remoteAudioFile: document.transcript?.audioFile ?? null,
+    });
+  };
+
+  // Both sides changed since the last sync. The newer edit wins; an edit always wins over a delete.
+  const resolveConflict = async (run: SyncRun, key: string, version: string, local: Transcription | undefined) => {
+    const document = assertSyncDocument((await run.backend.getDocument(key)).document);
+    const state = states.value[key];
+
+    if (!local) {
+      // Deleted here, edited elsewhere: bring the record back
+      if (!document.deleted) return pull(run, key, version, undefined);
+      await saveState(key, { remoteVersion: version, syncedUpdatedAt: state?.deletedAt ?? null, error: null });
+      return;
+    }
+    if (document.deleted || document.updatedAt === localVersionOf(local)) {
+      await saveState(key, { remoteVersion: version });
+      return push(run, key, local);
+    }
+    if (local.id === undefined) return;
+
+    if (localVersionOf(local) > document.updatedAt) {
+      await keepAsVariant(fromSyncDocument(document, local.id, local.audioBlob ?? null), local.id);
+      await saveState(key, { remoteVersion: version });
+      return push(run, key, local);
+    }
+    await keepAsVariant(local, local.id);
+    await pull(run, key, version, local);
+  };
+
+  const syncRecord = async (run: SyncRun, key: string) => {
+    const local = run.localByKey.get(key);
+    const state = states.value[key];
+    const remoteVersion = run.remote.get(key) ?? null;
+    const localVersion = local ? localVersionOf(local) : state?.deletedAt ?? null;
+
+    if (remoteVersion === null) {
+      // Never uploaded, or removed on the server by hand: upload what we have
+      if (local) return push(run, key, local);
+      if (state) await dropState(key);
+      return;
+    }
+
+    const localChanged = localVersion !== null && localVersion !== state?.syncedUpdatedAt;
+    const remoteChanged = remoteVersion !== state?.remoteVersion;
+
+    if (localChanged && remoteChanged) return resolveConflict(run, key, remoteVersion, local);
+    if (remoteChanged) return pull(run, key, remoteVersion, local);
+    if (!localChanged) {
+      if (state?.error) await saveState(key, { error: null });
+      return;
+    }
+    if (local) return push(run, key, local);
+    if (state?.deletedAt) return pushTombstone(run, key, state.deletedAt);
+  };
+
+  // Pushes local changes and pulls remote ones. Records are handled oldest first so a variant's
+  // parent exists locally before the variant is linked to it.
+  const syncNow = async () => {
+    await settingsStore.ensureLoaded();
+    if (isSyncing.value || !isEnabled.value || !navigator.onLine) return;
+    if (settingsStore.isLocked) {
+      lastError.value = 'Unlock with your passphrase to sync.';
+      return;
+    }
+
+    isSyncing.value = true;
+    lastError.value = null;
+    try {
+      const backend = resolveSyncBackend(settingsStore.sync);
+      await loadStates();
+      const locals = await db.transcriptions.toArray();
+      const run: SyncRun = {
+        backend,
+        remote: new Map((await backend.list()).map(entry => [entry.key, entry.version])),
+        localByKey: new Map(),
+        keyById: new Map(),
+        idByKey: new Map(),
+      };
+      for (const item of locals) remember(run, syncKeyOf(item), item);
+
+      const keys = [...new Set([...run.localByKey.keys(), ...run.remote.keys(), ...Object.keys(states.value)])]
+        .sort((a, b) => createdAtOfKey(a) - createdAtOfKey(b));
+
+      let failed = 0;
+      for (const key of keys) {
+        try {
+          await syncRecord(run, key);
+        } catch (error) {
+          console.error(`Sync failed for ${key}:`, error);
+          failed++;
+          await saveState(key, { error: describeError(error) });
+        }
+      }
+
+      lastSyncAt.value = Date.now();
+      if (failed > 0) lastError.value = `${failed} transcript${failed === 1 ? '' : 's'} could not be synced.`;
+      await useTranscriptionsStore().loadAll();
+    } catch (error) {
+      console.error('Sync failed:', error);
+      lastError.value = describeError(error);
+    } finally {
+      isSyncing.value = false;
+    }
+  };
+
+  window.addEventListener('online', () => {
+    void syncNow();
+  });
+
+  return {
+    states,
+    isSyncing,
+    lastSyncAt,
+    lastError,
+    isEnabled,
+    loadStates,
+    statusOf,
+    errorOf,
+    syncNow,
+  };
+});
@@ -1,6 +1,9 @@
 import { defineStore } from 'pinia';
 import { ref } from 'vue';
-import { db, type Transcription } from '../db/db';
+import { db, type BackTranslation, type Transcription } from '../db/db';
+import { tokenize } from '../db/searchWords';
+import { withLocaleTargets } from '../db/targetCodes';
+import { syncKeyOf } from '../sync/document';
 
 const createVariantGroupId = () => {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
@@ -9,7 +12,15 @@ const createVariantGroupId = () => {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
-type CreateTranscriptionInput = Omit<Transcription, 'id' | 'createdAt' | 'variantGroupId' | 'variantOfId'>;
+type CreateTranscriptionInput = Omit<Transcription, 'id' | 'createdAt' | 'variantGroupId' | 'variantOfId' | 'searchWords'>;
+
+export interface TranscriptionSearchCriteria {
+  query?: string;
+  sourceLang?: string | null;
+  targetLang?: string | null;
+  from?: number | null; // Inclusive timestamp
+  to?: number | null; // Inclusive timestamp
+}
 
 export const useTranscriptionsStore = defineStore('transcriptions', () => {
   const items = ref<Transcription[]>([]);
@@ -22,17 +33,58 @@ export const useTranscriptionsStore = defineStore('transcriptions', () => {
 
   const getById = async (id: number) => db.transcriptions.get(id);
 
+  // Every query word must prefix-match a word of the source text or any translation.
+  // The most selective index drives the query; the remaining criteria are applied in memory.
+  const search = async (criteria: TranscriptionSearchCriteria): Promise<Transcription[]> => {
+    const words = tokenize(criteria.query ?? '');
+    const from = criteria.from ?? null;
+    const to = criteria.to ?? null;
+
+    let candidates: Transcription[];
+    if (words.length > 0) {
+      // Start from the longest word: it usually matches the fewest entries
+      const [first, ...rest] = [...words].sort((a, b) => b.length - a.length);
+      candidates = await db.transcriptions.where('searchWords').startsWith(first).distinct().toArray();
+      candidates = candidates.filter(item =>
+        rest.every(word => (item.searchWords ?? []).some(entry => entry.startsWith(word)))
+      );
+    } else if (criteria.targetLang) {
+      candidates = await db.transcriptions.where('targetCodes').equals(criteria.targetLang).toArray();
+    } else if (criteria.sourceLang) {
+      candidates = await db.transcriptions.where('sourceLang').equals(criteria.sourceLang).toArray();
+    } else if (from !== null || to !== null) {
+      candidates = await db.transcriptions
+        .where('createdAt')
+        .between(from ?? 0, to ?? Number.MAX_SAFE_INTEGER, true, true)
+        .toArray();
+    } else {
+      return db.transcriptions.orderBy('createdAt').reverse().toArray();
+    }
+
+    return candidates
+      .filter(item => !criteria.sourceLang || item.sourceLang === criteria.sourceLang)
+      .filter(item => !criteria.targetLang || item.targetCodes.includes(criteria.targetLang))
+      .filter(item => from === null || item.createdAt >= from)
+      .filter(item => to === null || item.createdAt <= to)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  };
+
   const addNew = async (
     input: CreateTranscriptionInput,
     opts?: { variantOfId?: number | null; variantGroupId?: string }
   ) => {
     const record: Omit<Transcription, 'id'> = {
       createdAt: Date.now(),
-      audioBlob: input.audioBlob,
+      ...(input.audioBlob ? { audioBlob: input.audioBlob } : {}),
       sourceText: input.sourceText,
       sourceLang: input.sourceLang,
       targetCodes: input.targetCodes,
       translations: input.translations,
+      ...(input.segments ? { segments: input.segments } : {}),
+      ...(input.glossaryMisses ? { glossaryMisses: input.glossaryMisses } : {}),
+      ...(input.sourceFileName ? { sourceFileName: input.sourceFileName } : {}),
+      ...(input.backTranslations ? { backTranslations: input.backTranslations } : {}),
+      ...(input.registers && Object.keys(input.registers).length > 0 ? { registers: input.registers } : {}),
       variantGroupId: opts?.variantGroupId ?? createVariantGroupId(),
       variantOfId: opts?.variantOfId ?? null,
     };
@@ -43,8 +95,53 @@ export const useTranscriptionsStore = defineStore('transcriptions', () => {
     return saved;
   };
 
+  // Restores exported records. Records already present (same variantGroupId + createdAt) are skipped,
+  // and variantOfId is remapped from the exporting device's ids to the local ones. Older exports get locale target codes.
+  const importRecords = async (records: Transcription[]) => {
+    const sorted = [...records].sort((a, b) => a.createdAt - b.createdAt);
+    const idMap = new Map<number, number>();
+    let imported = 0;
+    let skipped = 0;
+
+    await db.transaction('rw', db.transcriptions, async () => {
+      for (const record of sorted) {
+        const existing = await db.transcriptions
+          .where('variantGroupId')
+          .equals(record.variantGroupId)
+          .filter(item => item.createdAt === record.createdAt)
+          .first();
+
+        if (existing?.id !== undefined) {
+          if (record.id !== undefined) idMap.set(record.id, existing.id);
+          skipped++;
+          continue;
+        }
+
+        const { id: originalId, ...rest } = withLocaleTargets(record);
+        const variantOfId = rest.variantOfId != null ? idMap.get(rest.variantOfId) ?? null : null;
+        const newId = Number(await db.transcriptions.add({ ...rest, variantOfId }));
+        if (originalId !== undefined) idMap.set(originalId, newId);
+        imported++;
+      }
+    });
+
+    await loadAll();
+    return { imported, skipped };
+  };
+
+  // Stores a quality check run after the transcript was saved
+  const setBackTranslations = async (id: number, backTranslations: Record<string, BackTranslation>) => {
+    await db.transcriptions.update(id, { backTranslations });
+    items.value = items.value.map(item => (item.id === id ? { ...item, backTranslations } : item));
+  };
+
+  // A transcript that was synced leaves a tombstone, so the next sync deletes it on the server too
   const remove = async (id: number) => {
-    await db.transcriptions.delete(id);
+    await db.transaction('rw', db.transcriptions, db.syncState, async () => {
+      const item = await db.transcriptions.get(id);
+      if (item) await db.syncState.update(syncKeyOf(item), { deletedAt: Date.now(), error: null });
+      await db.transcriptions.delete(id);
+    });
     items.value = items.value.filter(item => item.id !== id);
   };
 
@@ -53,7 +150,10 @@ export const useTranscriptionsStore = defineStore('transcriptions', () => {
     isLoaded,
     loadAll,
     getById,
+    search,
     addNew,
+    importRecords,
+    setBackTranslations,
     remove,
   };
 });
@@ -1,21 +1,104 @@
 import { defineStore } from 'pinia';
 import { ref } from 'vue';
-import { db, type Conversation } from '../db/db';
-import { languages, type Language } from '../config/languages';
+import { baseLanguage, languages, resolveLanguage, type Language } from '../config/languages';
 import { useSettingsStore } from './settings';
+import { useGlossaryStore } from './glossary';
+import { useUsageStore } from './usage';
+import type { BackTranslation, GlossaryMiss, TranslationRegister } from '../db/db';
+import {
+    resolveTranslationProvider,
+    type GlossaryTerm,
+    type ProviderError,
+    type TargetLanguageMeta,
+    type TranscribeSegmentsOutput,
+    type TranscriptSegment,
+    type TranslationProvider,
+} from '../providers';
+import { isCancelledError, withRetry } from '../providers/errors';
+import { decodeAudioBlob, stitchSegments, stitchTexts } from '../utils/audioChunks';
+import { findGlossaryMisses } from '../utils/glossary';
+import { similarityScore } from '../utils/backTranslation';
+import { prepareUploadInWorker } from '../utils/speechAudioWorker';
+
+// Partial result of a chunked request, reported after every finished chunk
+export interface TranslationProgress {
+    completedChunks: number;
+    totalChunks: number;
+    sourceText: string;
+    translations: Record<string, string>;
+    segments: TranscriptSegment[];
+}
+
+// Adds up the numeric fields of two provider usage objects (token and audio-second counts)
+const mergeUsage = (total: any | null, next: any | null) => {
+    if (!next) return total;
+    if (!total) return { ...next };
+    const merged: Record<string, unknown> = { ...total };
+    for (const [key, value] of Object.entries(next)) {
+        if (typeof value === 'number') merged[key] = (typeof total[key] === 'number' ? total[key] : 0) + value;
+    }
+    return merged;
+};
+
+const logRetry = (label: string) => (error: ProviderError, attempt: number, delayMs: number) =>
+    console.warn(`${label} failed (${error.kind}, attempt ${attempt}); retrying in ${delayMs} ms.`, error);
+
+// One provider round trip: translation and, if asked for and supported, segment timestamps in parallel.
+// The timestamps are a second paid audio request, so they only run with the playback highlighting setting.
+// Transient failures are retried with backoff; `signal` cancels both requests and any pending retry.
+const requestTranslation = async (
+    provider: TranslationProvider,
+    audioBase64: string,
+    segmentsSource: Blob | null,
+    targets: TargetLanguageMeta[],
+    glossary: GlossaryTerm[],
+    signal?: AbortSignal
+) => {
+    const transcribeSegments = provider.transcribeSegments;
+
+    // Timestamps are a nice-to-have: a failed segment request never fails the translation
+    const segmentsPromise: Promise<TranscribeSegmentsOutput | null> = transcribeSegments && segmentsSource
+        ? withRetry(() => transcribeSegments(segmentsSource, signal), {
+              signal,
+              maxAttempts: 2,
+              onRetry: logRetry(`${provider.label} segments`),
+          }).catch(segmentError => {
+              console.warn(`Could not fetch segment timestamps from ${provider.label}:`, segmentError);
+              return null;
+          })
+        : Promise.resolve(null);
+
+    const [result, segmentsOutput] = await Promise.all([
+        withRetry(() => provider.transcribeAndTranslate({ audioBase64, targets, glossary, signal }), {
+            signal,
+            onRetry: logRetry(provider.label),
+        }),
+        segmentsPromise,
+    ]);
+    return { result, segmentsOutput, segments: segmentsOutput?.segments ?? [] };
+};
 
 export const useTranslationStore = defineStore('translation', () => {
     const settingsStore = useSettingsStore();
+    const glossaryStore = useGlossaryStore();
+    const usageStore = useUsageStore();
     const currentSourceText = ref('');
     const currentSourceLang = ref('en'); // Default, will be updated by STT
     const currentTranslatedText = ref('');
     const currentTranslations = ref<Record<string, string>>({});
+    const currentSegments = ref<TranscriptSegment[]>([]);
+    const currentGlossaryMisses = ref<Record<string, GlossaryMiss[]>>({});
+    const currentRegisters = ref<Record<string, TranslationRegister>>({}); // Non-neutral registers the current result was asked for
+    const currentBackTranslations = ref<Record<string, BackTranslation>>({});
+    const isVerifying = ref(false); // Back-translation check of the current result is running
+    const chunkProgress = ref<{ completed: number; total: number } | null>(null); // Set while a long recording is processed in chunks
     const lastUsage = ref<any | null>(null);
     const isProcessing = ref(false);
     const error = ref<string | null>(null);
-    const history = ref<Conversation[]>([]);
     const detectedLanguage = ref<Language | null>(null);
     const actualTranslatedLanguage = ref<Language | null>(null); // Actual language of translation (might be fallback)
+    let activeRequest: AbortController | null = null; // Set while transcribeAndTranslate or translateTypedText runs
+    let activeVerification: AbortController | null = null; // Set while the current result is back-translated
 
     const setTargetLang = (lang: string) => {
         void settingsStore.setTargetLang(lang);
@@ -25,331 +108,402 @@ export const useTranslationStore = defineStore('translation', () => {
         void settingsStore.setSourceLang(lang);
     };
 
-    const loadHistory = async () => {
-        try {
-            history.value = await db.conversations.orderBy('createdAt').reverse().toArray();
-        } catch (e) {
-            console.error('Error loading history:', e);
-        }
+    // Match a detected ISO 639-1 code to our language list
+    const matchDetectedLanguage = (code: string): Language | null => {
+        const detected = languages.find(lang => {
+            const match = lang.displayCode === code ||
+                          lang.displayCode.toLowerCase() === code.toLowerCase() ||
+                          lang.code.toLowerCase().startsWith(code.toLowerCase() + '-');
+            if (match) {
+                console.log('Matched source language:', lang.nativeName, lang.code);
+            }
+            return match;
+        });
+        return detected || null;
     };
 
-    // Helper function to convert Blob to base64
-    const blobToBase64 = (blob: Blob): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = reader.result as string;
-                // Remove the data URL prefix (e.g., "data:audio/webm;base64,")
-                const base64Data = base64String.split(',')[1];
-                resolve(base64Data);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
+    // `registers` overrides the per-target formality from the settings (used for register variants)
+    const resolveTargets = (
+        targetCodes: string[],
+        registers?: Record<string, TranslationRegister>
+    ): TargetLanguageMeta[] => {
+        if (!targetCodes || targetCodes.length === 0) {
+            throw new Error('No target languages selected. Select up to 10 target languages and try again.');
+        }
+        return targetCodes.map(code => {
+            const lang = resolveLanguage(code);
+            const register = registers ? (registers[code] ?? 'neutral') : settingsStore.getTargetRegister(code);
+            return { code, name: lang?.name || code, ...(register !== 'neutral' ? { register } : {}) };
         });
     };
 
-    // Helper function to encode AudioBuffer to WAV format
-    const audioBufferToWav = (buffer: AudioBuffer): ArrayBuffer => {
-        const length = buffer.length * buffer.numberOfChannels * 2;
-        const arrayBuffer = new ArrayBuffer(44 + length);
-        const view = new DataView(arrayBuffer);
-        const channels: Float32Array[] = [];
-        let offset = 0;
-        let pos = 0;
-
-        // Write WAV header
-        const setUint16 = (data: number) => {
-            view.setUint16(pos, data, true);
-            pos += 2;
-        };
-        const setUint32 = (data: number) => {
-            view.setUint32(pos, data, true);
-            pos += 4;
-        };
+    // Registers a request actually asked for, in the shape saved on a Transcription (neutral targets left out)
+    const usedRegisters = (targets: TargetLanguageMeta[]): Record<string, TranslationRegister> =>
+        Object.fromEntries(targets.flatMap(t => (t.register ? [[t.code, t.register]] : [])));
 
-        // "RIFF" chunk descriptor
-        setUint32(0x46464952); // "RIFF"
-        setUint32(36 + length); // file length - 8
-        setUint32(0x45564157); // "WAVE"
-
-        // "fmt " sub-chunk
-        setUint32(0x20746d66); // "fmt "
-        setUint32(16); // length = 16
-        setUint16(1); // PCM
-        setUint16(buffer.numberOfChannels);
-        setUint32(buffer.sampleRate);
-        setUint32(buffer.sampleRate * buffer.numberOfChannels * 2); // byte rate
-        setUint16(buffer.numberOfChannels * 2); // block align
-        setUint16(16); // bits per sample
-
-        // "data" sub-chunk
-        setUint32(0x61746164); // "data"
-        setUint32(length);
-
-        // Write interleaved PCM samples
-        for (let i = 0; i < buffer.numberOfChannels; i++) {
-            channels.push(buffer.getChannelData(i));
+    // Locked secrets bring up the passphrase prompt; the error still explains why the request did not run
+    const resolveProvider = () => {
+        if (settingsStore.isLocked) {
+            settingsStore.openUnlockPrompt();
+            throw new Error('Your keys are locked. Enter your passphrase to unlock them.');
         }
+        return resolveTranslationProvider(settingsStore.providerSettings);
+    };
+
+    // Display code for a language code reported by the model ('' if none)
+    const resolveSourceLanguage = (code: string) => {
+        if (!code) return { sourceLang: '', detected: null };
+        console.log('Detected source language code:', code);
+        const detected = matchDetectedLanguage(code);
+        if (!detected) console.warn('Could not find language for code:', code);
+        return { sourceLang: detected?.displayCode ?? code, detected };
+    };
 
-        while (pos < arrayBuffer.byteLength) {
-            for (let i = 0; i < buffer.numberOfChannels; i++) {
-                let sample = Math.max(-1, Math.min(1, channels[i][offset]));
-                sample = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-                view.setInt16(pos, sample, true);
-                pos += 2;
+    // Sends audio to the configured provider without touching the current UI state.
+    // Used directly by background work (e.g. the offline queue).
+    // Recordings longer than the configured chunk length are sent as overlapping chunks, one after another,
+    // and the results stitched together; `onProgress` receives the partial result after every chunk.
+    // Rejects with a ProviderError for request failures (kind 'cancelled' once `signal` aborts).
+    const translateAudio = async (
+        audioBlob: Blob,
+        targetCodes: string[],
+        onProgress?: (progress: TranslationProgress) => void,
+        signal?: AbortSignal
+    ) => {
+        await settingsStore.ensureLoaded();
+
+        const provider = resolveProvider();
+        const targets = resolveTargets(targetCodes);
+
+        await glossaryStore.ensureLoaded();
+        const glossary = glossaryStore.termsForTargets(targetCodes);
+
+        // Decoding needs an AudioContext, which workers do not have; the browser decodes off the main thread anyway.
+        // Everything after that (mono 16 kHz, silence trimming, chunking, WAV and base64) runs in the audio worker.
+        console.log('Decoding audio from', audioBlob.type, '...');
+        const buffer = await decodeAudioBlob(audioBlob);
+        const { trimSilence, speechThresholdDb } = settingsStore.settings.voiceActivity;
+        const upload = await prepareUploadInWorker({
+            channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice()),
+            sampleRate: buffer.sampleRate,
+            maxChunkSeconds: settingsStore.settings.maxChunkSeconds,
+            trimThresholdDb: trimSilence ? speechThresholdDb : null,
+        });
+        const ranges = upload.chunks.map(chunk => chunk.range);
+        if (upload.isTrimmed) {
+            console.log(`Trimmed silence: sending ${ranges[0].start.toFixed(2)}s-${ranges[ranges.length - 1].end.toFixed(2)}s of ${upload.duration.toFixed(2)}s`);
+        }
+        const isWholeRecording = ranges.length === 1 && !upload.isTrimmed;
+
+        console.log(`Sending audio to ${provider.label}${ranges.length > 1 ? ` in ${ranges.length} chunks` : ''}...`);
+        console.log('Target languages:', targets.map(t => `${t.name} (${t.code})`).join(', '));
+
+        let sourceText = '';
+        let sourceLanguage = '';
+        let translations: Record<string, string> = Object.fromEntries(targetCodes.map(code => [code, '']));
+        let segments: TranscriptSegment[] = [];
+        let usage: any | null = null;
+
+        const reportProgress = (completedChunks: number) =>
+            onProgress?.({
+                completedChunks,
+                totalChunks: ranges.length,
+                sourceText,
+                translations: { ...translations },
+                segments: [...segments],
+            });
+        reportProgress(0);
+
+        for (const [index, chunk] of upload.chunks.entries()) {
+            const range = chunk.range;
+            // An untrimmed single chunk keeps the original (compressed) recording for the segment request
+            const segmentsSource = !settingsStore.segmentTimestamps
+                ? null
+                : isWholeRecording
+                  ? audioBlob
+                  : new Blob([chunk.wav], { type: 'audio/wav' });
+            const part = await requestTranslation(provider, chunk.base64, segmentsSource, targets, glossary, signal);
+
+            sourceText = stitchTexts(sourceText, part.result.sourceText);
+            translations = Object.fromEntries(
+                targetCodes.map(code => [code, stitchTexts(translations[code] ?? '', part.result.translations[code] ?? '')])
+            );
+            segments = stitchSegments(segments, part.segments, range, index > 0 ? ranges[index - 1].end : range.start);
+            sourceLanguage ||= part.result.sourceLanguage;
+            usage = mergeUsage(usage, part.result.usage);
+
+            void usageStore.recordRequest({
+                provider: provider.id,
+                model: part.result.model ?? provider.model,
+                kind: 'transcribe-translate',
+                usage: part.result.usage,
+                sourceLang: part.result.sourceLanguage,
+                targetCodes,
+                upload: { bytes: chunk.base64.length, nativeBytes: chunk.nativeBase64Bytes },
+            });
+            if (part.segmentsOutput) {
+                void usageStore.recordRequest({
+                    provider: provider.id,
+                    model: part.segmentsOutput.model,
+                    kind: 'segments',
+                    usage: part.segmentsOutput.usage,
+                    sourceLang: part.result.sourceLanguage,
+                    targetCodes: [],
+                });
             }
-            offset++;
+
+            reportProgress(index + 1);
         }
 
-        return arrayBuffer;
-    };
+        const { sourceLang, detected } = resolveSourceLanguage(sourceLanguage);
+
+        const glossaryMisses = findGlossaryMisses(glossary, sourceText, sourceLang, translations);
+        if (Object.keys(glossaryMisses).length > 0) console.warn('Translations ignored the glossary:', glossaryMisses);
 
-    // Helper function to convert audio blob to WAV format
-    const convertToWav = async (blob: Blob): Promise<Blob> => {
-        const audioContext = new AudioContext();
-        const arrayBuffer = await blob.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        return {
+            sourceText,
+            sourceLang,
+            detectedLanguage: detected,
+            translations,
+            segments,
+            glossaryMisses,
+            registers: usedRegisters(targets),
+            usage,
+        };
+    };
 
-        // Convert to WAV
-        const wavBuffer = audioBufferToWav(audioBuffer);
-        await audioContext.close();
+    // Translates typed or edited text into every target with one text-only request (no audio, so no audio tokens).
+    // Like translateAudio, it leaves the current UI state alone. `sourceLanguage` skips detection when already known.
+    const translateText = async (
+        sourceText: string,
+        targetCodes: string[],
+        sourceLanguage?: string,
+        signal?: AbortSignal,
+        registers?: Record<string, TranslationRegister>
+    ) => {
+        await settingsStore.ensureLoaded();
+
+        const provider = resolveProvider();
+        const targets = resolveTargets(targetCodes, registers);
+        const text = sourceText.trim();
+        if (!text) throw new Error('There is no text to translate.');
+
+        await glossaryStore.ensureLoaded();
+        const glossary = glossaryStore.termsForTargets(targetCodes);
+
+        const result = await withRetry(
+            () => provider.translateText({ sourceText: text, sourceLanguage, targets, glossary, signal }),
+            { signal, onRetry: logRetry(provider.label) }
+        );
+
+        void usageStore.recordRequest({
+            provider: provider.id,
+            model: result.model ?? provider.model,
+            kind: 'translate-text',
+            usage: result.usage,
+            sourceLang: result.sourceLanguage,
+            targetCodes,
+        });
 
-        return new Blob([wavBuffer], { type: 'audio/wav' });
+        // The model may tidy up the text it echoes back; the user's text is the source of truth
+        const { sourceLang, detected } = resolveSourceLanguage(sourceLanguage || result.sourceLanguage);
+        const glossaryMisses = findGlossaryMisses(glossary, text, sourceLang, result.translations);
+        if (Object.keys(glossaryMisses).length > 0) console.warn('Translations ignored the glossary:', glossaryMisses);
+
+        return {
+            sourceText: text,
+            sourceLang,
+            detectedLanguage: detected,
+            translations: result.translations,
+            segments: [] as TranscriptSegment[],
+            glossaryMisses,
+            registers: usedRegisters(targets),
+            usage: result.usage,
+        };
     };
 
-    const parseJsonContent = (content: unknown) => {
-        if (content && typeof content === 'object') return content;
-        if (typeof content !== 'string') throw new Error('Voxtral returned an unexpected response format.');
+    // Quality check: translates every translation back into the source language and scores it against the source text.
+    // Targets in the source language (passed through unchanged) and empty translations are skipped.
+    const backTranslate = async (
+        sourceText: string,
+        sourceLang: string,
+        translations: Record<string, string>,
+        signal?: AbortSignal
+    ): Promise<Record<string, BackTranslation>> => {
+        const toCheck = Object.fromEntries(
+            Object.entries(translations).filter(([code, text]) => baseLanguage(code) !== sourceLang && text.trim())
+        );
+        if (!sourceLang || !sourceText.trim() || Object.keys(toCheck).length === 0) return {};
+
+        await settingsStore.ensureLoaded();
+        const provider = resolveProvider();
+        const [source] = resolveTargets([sourceLang], {});
+
+        const result = await withRetry(
+            () => provider.backTranslate({ translations: toCheck, source, signal }),
+            { signal, onRetry: logRetry(`${provider.label} back-translation`) }
+        );
+
+        void usageStore.recordRequest({
+            provider: provider.id,
+            model: result.model ?? provider.model,
+            kind: 'back-translate',
+            usage: result.usage,
+            sourceLang,
+            targetCodes: Object.keys(toCheck),
+        });
 
-        const trimmed = content.trim();
-        const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
-        const candidate = (fenced?.[1] ?? trimmed).trim();
+        return Object.fromEntries(
+            Object.entries(result.backTranslations).map(([code, text]) => [
+                code,
+                { text, score: Math.round(similarityScore(sourceText, text) * 100) / 100 },
+            ])
+        );
+    };
 
+    // Back-translates the current result in the background. Failures only lose the check, never the translation.
+    const verifyCurrent = async () => {
+        activeVerification?.abort();
+        const verification = new AbortController();
+        activeVerification = verification;
+        isVerifying.value = true;
         try {
-            return JSON.parse(candidate);
-        } catch {
-            const start = candidate.indexOf('{');
-            const end = candidate.lastIndexOf('}');
-            if (start >= 0 && end > start) {
-                return JSON.parse(candidate.slice(start, end + 1));
+            currentBackTranslations.value = await backTranslate(
+                currentSourceText.value,
+                currentSourceLang.value,
+                currentTranslations.value,
+                verification.signal
+            );
+        } catch (e) {
+            if (!verification.signal.aborted) console.warn('Back-translation check failed:', e);
+        } finally {
+            if (activeVerification === verification) {
+                activeVerification = null;
+                isVerifying.value = false;
             }
-            throw new Error('Failed to parse Voxtral JSON response.');
         }
     };
 
-    // Combined transcription and translation in one API call
-    const transcribeAndTranslate = async (audioBlob: Blob) => {
+    // Runs one request that drives the current UI state (source text, translations, progress).
+    // A newer request aborts the previous one.
+    const runCurrentRequest = async (
+        run: (targetCodes: string[], request: AbortController) => ReturnType<typeof translateAudio>
+    ) => {
         isProcessing.value = true;
         error.value = null;
         currentSourceText.value = '';
         currentTranslatedText.value = '';
         currentTranslations.value = {};
+        currentSegments.value = [];
+        currentGlossaryMisses.value = {};
+        currentRegisters.value = {};
+        currentBackTranslations.value = {};
+        chunkProgress.value = null;
         lastUsage.value = null;
+        activeRequest?.abort();
+        activeVerification?.abort();
+        const request = new AbortController();
+        activeRequest = request;
 
         try {
             await settingsStore.ensureLoaded();
+            const targetCodes = [...settingsStore.extendedTargetLangs];
 
-            const devFallbackKey = import.meta.env.DEV ? import.meta.env.VITE_MISTRAL_API_KEY : undefined;
-            const apiKey = settingsStore.apiKey || devFallbackKey;
-            if (!apiKey) throw new Error('Missing Mistral API key. Open Settings and add your key.');
-
-            // Convert audio blob to WAV format if needed
-            let wavBlob: Blob;
-            if (audioBlob.type === 'audio/wav') {
-                console.log('Audio already in WAV format, skipping conversion');
-                wavBlob = audioBlob;
-            } else {
-                console.log('Converting audio from', audioBlob.type, 'to WAV format...');
-                wavBlob = await convertToWav(audioBlob);
-                console.log('WAV conversion complete:', wavBlob.size, 'bytes');
-            }
-
-            // Convert WAV blob to base64
-            console.log('Converting audio to base64...');
-            const audioBase64 = await blobToBase64(wavBlob);
-
-            const targetCodes = settingsStore.extendedTargetLangs;
-            if (!targetCodes || targetCodes.length === 0) {
-                throw new Error('No target languages selected. Select up to 10 target languages and try again.');
-            }
-
-            const targetMeta = targetCodes.map(code => {
-                const lang = languages.find(l => l.displayCode === code);
-                return { code, name: lang?.name || code };
-            });
-
-            const translationProperties = Object.fromEntries(targetCodes.map(code => [code, { type: 'string' }]));
-
-            console.log('Sending audio to Voxtral...');
-            console.log('Target languages:', targetMeta.map(t => `${t.name} (${t.code})`).join(', '));
-
-            const requestBody = {
-                model: 'voxtral-small-latest',
-                response_format: {
-                    type: 'json_schema',
-                    json_schema: {
-                        name: 'transcribe_and_translate_multi',
-                        strict: true,
-                        schema: {
-                            type: 'object',
-                            additionalProperties: false,
-                            required: ['sourceText', 'sourceLanguage', 'translations'],
-                            properties: {
-                                sourceText: { type: 'string' },
-                                sourceLanguage: { type: 'string' },
-                                translations: {
-                                    type: 'object',
-                                    additionalProperties: false,
-                                    required: targetCodes,
-                                    properties: translationProperties,
-                                },
-                            },
-                        },
-                    },
-                },
-                messages: [
-                    {
-                        role: 'system',
-                        content: `You are a transcription and translation assistant. Listen to the audio and:
-1. Transcribe exactly what was said
-2. Detect the source language (return ISO 639-1 code like 'en', 'de', 'fr', etc.)
-3. Translate the transcription into EACH of the following target languages and return them under translations.<code> using EXACTLY these keys:
-${targetMeta.map(t => `- ${t.code} (${t.name})`).join('\n')}
-
-If a target language matches the detected source language, return the transcription text unchanged for that key.
-
-Return a JSON object that matches the provided JSON schema.`,
-                    },
-                    {
-                        role: 'user',
-                        content: [
-                            { type: 'input_audio', input_audio: audioBase64 },
-                            {
-                                type: 'text',
-                                text: `Please transcribe this audio, detect the source language, and translate it into: ${targetMeta
-                                    .map(t => `${t.name} (${t.code})`)
-                                    .join(', ')}.`,
-                            },
-                        ],
-                    },
-                ],
-            };
-
-            const sendRequest = async (body: unknown) => {
-                return fetch('https://api.mistral.ai/v1/chat/completions', {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${apiKey}`,
-                    },
-                    body: JSON.stringify(body),
-                });
-            };
-
-            let res = await sendRequest(requestBody);
-            if (!res.ok) {
-                const status = res.status;
-                const errText = await res.text();
-                const mentionsSchema =
-                    errText.toLowerCase().includes('json_schema') || errText.toLowerCase().includes('response_format');
-
-                if (status === 400 && mentionsSchema) {
-                    console.warn('Voxtral json_schema response_format rejected; retrying with json_object fallback.');
-                    const fallbackBody = {
-                        ...(requestBody as any),
-                        response_format: { type: 'json_object' },
-                    };
-                    res = await sendRequest(fallbackBody);
-                    if (!res.ok) {
-                        const errText2 = await res.text();
-                        throw new Error(`Voxtral API Error: ${errText2}`);
-                    }
-                } else {
-                    throw new Error(`Voxtral API Error: ${errText}`);
-                }
-            }
-
-            const data = await res.json();
-            console.log('Voxtral full response:', data);
-            lastUsage.value = data.usage ?? null;
+            const result = await run(targetCodes, request);
+            // A newer call owns the UI state now; this result only goes back to its caller
+            if (activeRequest !== request) return result;
+            lastUsage.value = result.usage;
 
-            // Parse the JSON response
-            const content = data.choices?.[0]?.message?.content;
-            if (!content) throw new Error('Voxtral returned no content.');
-            const result: any = parseJsonContent(content);
-            console.log('Parsed result:', result);
-
-            currentSourceText.value = result.sourceText || '';
+            currentSourceText.value = result.sourceText;
             currentTranslatedText.value = '';
-
-            const translations: Record<string, string> = {};
-            const raw = result.translations;
-            if (!raw || typeof raw !== 'object') {
-                throw new Error('Voxtral response did not include a translations object. Please try again.');
-            }
-
-            for (const code of targetCodes) {
-                const value = (raw as any)[code];
-                translations[code] = typeof value === 'string' ? value : value == null ? '' : String(value);
-            }
-            currentTranslations.value = translations;
-
-            // Match the detected source language code to our language list
-            if (result.sourceLanguage) {
-                console.log('Detected source language code:', result.sourceLanguage);
-
-                const detected = languages.find(lang => {
-                    const match = lang.displayCode === result.sourceLanguage ||
-                                  lang.displayCode.toLowerCase() === result.sourceLanguage.toLowerCase() ||
-                                  lang.code.toLowerCase().startsWith(result.sourceLanguage.toLowerCase() + '-');
-                    if (match) {
-                        console.log('Matched source language:', lang.nativeName, lang.code);
-                    }
-                    return match;
-                });
-
-                if (detected) {
-                    console.log('Setting detectedLanguage to:', detected.nativeName, detected.flag);
-                    detectedLanguage.value = detected;
-                    currentSourceLang.value = detected.displayCode;
-                } else {
-                    console.warn('Could not find language for code:', result.sourceLanguage);
-                    detectedLanguage.value = null;
-                    currentSourceLang.value = result.sourceLanguage;
+            currentTranslations.value = result.translations;
+            currentSegments.value = result.segments;
+            currentGlossaryMisses.value = result.glossaryMisses;
+            currentRegisters.value = result.registers;
+
+            if (result.sourceLang) {
+                if (result.detectedLanguage) {
+                    console.log('Setting detectedLanguage to:', result.detectedLanguage.nativeName, result.detectedLanguage.flag);
                 }
+                detectedLanguage.value = result.detectedLanguage;
+                currentSourceLang.value = result.sourceLang;
             }
 
             // Keep currentTranslatedText in sync with the first selected target (for any legacy UI)
             if (targetCodes.length > 0) {
                 const first = targetCodes[0];
                 currentTranslatedText.value = currentTranslations.value[first] || '';
-                actualTranslatedLanguage.value = languages.find(lang => lang.displayCode === first) || null;
+                actualTranslatedLanguage.value = resolveLanguage(first) || null;
             }
 
+            if (settingsStore.verifyTranslations && result.sourceLang) void verifyCurrent();
+
             return result;
         } catch (e: any) {
-            console.error('Transcription and translation error:', e);
-            error.value = e.message;
+            // A superseded or cancelled call leaves the error state alone (a newer call may own it)
+            if (activeRequest === request && !isCancelledError(e)) {
+                console.error('Transcription and translation error:', e);
+                error.value = e.message;
+            }
             throw e;
         } finally {
-            isProcessing.value = false;
+            // A newer call may already have replaced this one
+            if (activeRequest === request) {
+                activeRequest = null;
+                isProcessing.value = false;
+                chunkProgress.value = null;
+            }
         }
     };
 
+    // Combined transcription and translation in one API call, delegated to the configured provider
+    const transcribeAndTranslate = (audioBlob: Blob) =>
+        runCurrentRequest((targetCodes, request) =>
+            translateAudio(audioBlob, targetCodes, progress => {
+                // Only chunked requests are worth showing partial results for, and only while no newer call owns the UI
+                if (progress.totalChunks < 2 || activeRequest !== request) return;
+                chunkProgress.value = { completed: progress.completedChunks, total: progress.totalChunks };
+                currentSourceText.value = progress.sourceText;
+                currentTranslations.value = progress.translations;
+                currentSegments.value = progress.segments;
+            }, request.signal)
+        );
+
+    // Typed text into all selected targets, shown like a transcribed recording.
+    // `registers` replaces the configured formality, e.g. for a variant in the other register.
+    const translateTypedText = (text: string, sourceLanguage?: string, registers?: Record<string, TranslationRegister>) =>
+        runCurrentRequest((targetCodes, request) => translateText(text, targetCodes, sourceLanguage, request.signal, registers));
+
+    // Aborts the running transcribeAndTranslate/translateTypedText call; it then rejects with a 'cancelled' ProviderError
+    const cancelProcessing = () => {
+        activeRequest?.abort();
+        activeVerification?.abort();
+    };
+
     return {
         currentSourceText,
         currentSourceLang,
         currentTranslatedText,
         currentTranslations,
+        currentSegments,
+        currentGlossaryMisses,
+        currentRegisters,
+        currentBackTranslations,
+        isVerifying,
+        chunkProgress,
         lastUsage,
         isProcessing,
         error,
-        history,
         detectedLanguage,
         actualTranslatedLanguage,
         setTargetLang,
         setSourceLang,
-        loadHistory,
+        translateAudio,
+        translateText,
         transcribeAndTranslate,
+        translateTypedText,
+        backTranslate,
+        verifyCurrent,
+        cancelProcessing,
     };
 });
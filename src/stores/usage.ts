@@ -0,0 +1,158 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { db, type TranslationProviderId, type UsageRecord } from '../db/db';
+import { useSettingsStore } from './settings';
+import { estimateCost, readUsageNumbers } from '../utils/usage';
+
+export const BUDGET_WARNING_RATIO = 0.9; // Warn once this share of the monthly budget is spent
+const HISTORY_MONTHS = 12;
+const DAILY_HISTORY_DAYS = 31;
+
+export interface UsageTotals {
+  key: string; // 'YYYY-MM-DD' or 'YYYY-MM', local time
+  requests: number;
+  audioSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedRequests: number; // Requests whose model is missing from the price table
+  uploadBytes: number;
+  nativeUploadBytes: number; // Only counted for requests that recorded their upload size
+}
+
+type RecordRequestInput = {
+  provider: TranslationProviderId;
+  model: string;
+  kind: UsageRecord['kind'];
+  usage: any | null;
+  sourceLang: string;
+  targetCodes: string[];
+  upload?: { bytes: number; nativeBytes: number };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const monthKey = (ts: number) => {
+  const date = new Date(ts);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+};
+const dayKey = (ts: number) => {
+  const date = new Date(ts);
+  return `${monthKey(ts)}-${pad(date.getDate())}`;
+};
+const startOfMonth = (monthsBack = 0) => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() - monthsBack, 1).getTime();
+};
+
+export const useUsageStore = defineStore('usage', () => {
+  const settingsStore = useSettingsStore();
+  const records = ref<UsageRecord[]>([]); // Newest first, limited to the history window
+  const isLoaded = ref(false);
+  let loadPromise: Promise<void> | null = null;
+
+  const loadAll = async () => {
+    const since = startOfMonth(HISTORY_MONTHS - 1);
+    records.value = await db.usageLedger.where('createdAt').aboveOrEqual(since).reverse().toArray();
+    isLoaded.value = true;
+  };
+
+  const ensureLoaded = async () => {
+    if (isLoaded.value) return;
+    if (!loadPromise) loadPromise = loadAll().finally(() => (loadPromise = null));
+    return loadPromise;
+  };
+
+  // Never throws: a failing ledger write must not fail the translation it belongs to
+  const recordRequest = async (input: RecordRequestInput) => {
+    const entry: UsageRecord = {
+      createdAt: Date.now(),
+      provider: input.provider,
+      model: input.model,
+      kind: input.kind,
+      ...readUsageNumbers(input.usage),
+      sourceLang: input.sourceLang,
+      targetCodes: [...input.targetCodes],
+      ...(input.upload && { uploadBytes: input.upload.bytes, nativeUploadBytes: input.upload.nativeBytes }),
+    };
+    try {
+      const id = await db.usageLedger.add(entry);
+      if (isLoaded.value) records.value.unshift({ ...entry, id: Number(id) });
+    } catch (error) {
+      console.error('Failed to write usage record:', error);
+    }
+  };
+
+  const clearAll = async () => {
+    await db.usageLedger.clear();
+    records.value = [];
+  };
+
+  const sumBy = (list: UsageRecord[], keyOf: (ts: number) => string): UsageTotals[] => {
+    const totals = new Map<string, UsageTotals>();
+    for (const record of list) {
+      const key = keyOf(record.createdAt);
+      const total = totals.get(key) ?? {
+        key,
+        requests: 0,
+        audioSeconds: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+        unpricedRequests: 0,
+        uploadBytes: 0,
+        nativeUploadBytes: 0,
+      };
+      total.requests += 1;
+      total.audioSeconds += record.audioSeconds ?? 0;
+      total.promptTokens += record.promptTokens ?? 0;
+      total.completionTokens += record.completionTokens ?? 0;
+      total.uploadBytes += record.uploadBytes ?? 0;
+      total.nativeUploadBytes += record.nativeUploadBytes ?? 0;
+      const cost = estimateCost(record, settingsStore.priceTable);
+      if (cost === null) total.unpricedRequests += 1;
+      else total.cost += cost;
+      totals.set(key, total);
+    }
+    return [...totals.values()].sort((a, b) => b.key.localeCompare(a.key));
+  };
+
+  const dailyTotals = computed(() => {
+    const since = Date.now() - DAILY_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+    return sumBy(records.value.filter(record => record.createdAt >= since), dayKey);
+  });
+
+  const monthlyTotals = computed(() => sumBy(records.value, monthKey));
+
+  const currentMonthCost = computed(() => {
+    const since = startOfMonth();
+    return records.value
+      .filter(record => record.createdAt >= since)
+      .reduce((sum, record) => sum + (estimateCost(record, settingsStore.priceTable) ?? 0), 0);
+  });
+
+  const budgetStatus = computed(() => {
+    const budget = settingsStore.monthlyBudget;
+    if (budget === null) return null;
+    const ratio = currentMonthCost.value / budget;
+    return {
+      budget,
+      spent: currentMonthCost.value,
+      ratio,
+      isNearLimit: ratio >= BUDGET_WARNING_RATIO,
+      isExceeded: ratio >= 1,
+    };
+  });
+
+  return {
+    records,
+    isLoaded,
+    loadAll,
+    ensureLoaded,
+    recordRequest,
+    clearAll,
+    dailyTotals,
+    monthlyTotals,
+    currentMonthCost,
+    budgetStatus,
+  };
+});
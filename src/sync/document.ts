@@ -0,0 +1,67 @@
+import type { Transcription } from '../db/db';
+import { withLocaleTargets } from '../db/targetCodes';
+import { audioExtension } from '../utils/audio';
+import { toMeta } from '../utils/transcriptExport';
+import { SYNC_FORMAT, SYNC_VERSION, type SyncDocument } from './types';
+
+// Stable across devices, unlike the auto-increment id; the same pair identifies duplicates on import
+export const syncKeyOf = (item: Pick<Transcription, 'variantGroupId' | 'createdAt'>) =>
+    `${item.variantGroupId}_${item.createdAt}`;
+
+// createdAt is the part after the last underscore (group ids are UUIDs without underscores)
+export const createdAtOfKey = (key: string) => Number(key.slice(key.lastIndexOf('_') + 1)) || 0;
+
+export const audioFileOf = (key: string, type: string, fileName?: string | null) =>
+    `${key}.${audioExtension(type, fileName)}`;
+
+export const toSyncDocument = (item: Transcription, variantOfKey: string | null): SyncDocument => {
+    const key = syncKeyOf(item);
+    // Removing audio to save space is a per-device choice, not an edit
+    const { id: _id, variantOfId: _variantOfId, audioRemovedAt: _audioRemovedAt, ...meta } = toMeta(item);
+    return {
+        format: SYNC_FORMAT,
+        version: SYNC_VERSION,
+        key,
+        updatedAt: item.updatedAt ?? item.createdAt,
+        deleted: false,
+        variantOfKey,
+        transcript: { ...meta, audioFile: item.audioBlob ? audioFileOf(key, meta.audioType, item.sourceFileName) : undefined },
+    };
+};
+
+export const toTombstone = (key: string, deletedAt: number): SyncDocument => ({
+    format: SYNC_FORMAT,
+    version: SYNC_VERSION,
+    key,
+    updatedAt: deletedAt,
+    deleted: true,
+    variantOfKey: null,
+    transcript: null,
+});
+
+export const assertSyncDocument = (data: any): SyncDocument => {
+    if (!data || data.format !== SYNC_FORMAT || typeof data.key !== 'string') {
+        throw new Error('The server returned a file that is not an EasyTranslator sync document.');
+    }
+    if (typeof data.version !== 'number' || data.version > SYNC_VERSION) {
+        throw new Error('This transcript was synced by a newer version of the app.');
+    }
+    return data as SyncDocument;
+};
+
+// The local record for a pulled document; variantOfId is the local id of variantOfKey, if present here
+export const fromSyncDocument = (
+    document: SyncDocument,
+    variantOfId: number | null,
+    audioBlob: Blob | null
+): Omit<Transcription, 'id'> => {
+    if (!document.transcript) throw new Error(`Sync document ${document.key} has no transcript.`);
+    const { audioType: _audioType, audioFile: _audioFile, ...rest } = document.transcript;
+    // Devices still on 2-letter target codes may have pushed it
+    return {
+        ...withLocaleTargets(rest),
+        ...(audioBlob ? { audioBlob } : {}),
+        variantOfId,
+        updatedAt: document.updatedAt,
+    };
+};
@@ -0,0 +1,34 @@
+// fetch wrapper shared by the sync backends: resolves relative base URLs and turns failures into readable Errors
+
+export interface SyncRequestOptions {
+    label: string;
+    headers: Record<string, string>; // Auth headers of the backend
+    allowStatus?: number[]; // Non-2xx statuses the caller handles itself (e.g. 404 on delete)
+}
+
+// A relative URL (e.g. "/dav/" behind the Vite dev proxy) is resolved against the app's own origin
+export const resolveBaseUrl = (baseUrl: string) => {
+    const url = new URL(baseUrl.trim(), window.location.href);
+    if (!url.pathname.endsWith('/')) url.pathname += '/';
+    return url;
+};
+
+// Keys contain only characters that are safe in a path, but encode anyway in case a server is picky
+export const childUrl = (base: URL, ...segments: string[]) =>
+    new URL(segments.map(segment => encodeURIComponent(segment)).join('/'), base).toString();
+
+export const syncRequest = async (url: string, init: RequestInit, { label, headers, allowStatus = [] }: SyncRequestOptions) => {
+    let res: Response;
+    try {
+        res = await fetch(url, { ...init, headers: { ...headers, ...(init.headers as Record<string, string>) } });
+    } catch {
+        throw new Error(`Could not reach ${label}. Check the URL, your connection and the server's CORS settings.`);
+    }
+    if (res.ok || allowStatus.includes(res.status)) return res;
+
+    if (res.status === 401 || res.status === 403) {
+        throw new Error(`${label} rejected the credentials (${res.status}). Check the user name and password or token in Settings.`);
+    }
+    const text = await res.text().catch(() => '');
+    throw new Error(`${label} answered ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+};
@@ -0,0 +1,17 @@
+import type { SyncSettings } from '../db/db';
+import { createRestSyncBackend } from './rest';
+import type { SyncBackend } from './types';
+import { createWebDavBackend } from './webdav';
+
+export type { RemoteEntry, SyncBackend, SyncDocument } from './types';
+export { syncKeyOf } from './document';
+
+export const resolveSyncBackend = (sync: SyncSettings): SyncBackend => {
+    if (!sync.baseUrl.trim()) {
+        throw new Error('Set the sync server URL in Settings first.');
+    }
+    if (sync.backend === 'rest') {
+        return createRestSyncBackend({ baseUrl: sync.baseUrl, token: sync.secret });
+    }
+    return createWebDavBackend({ baseUrl: sync.baseUrl, username: sync.username, password: sync.secret });
+};
@@ -0,0 +1,55 @@
+import type { RemoteEntry, SyncBackend, SyncDocument } from './types';
+import { childUrl, resolveBaseUrl, syncRequest } from './http';
+
+export interface RestSyncConfig {
+    baseUrl: string; // API root; the routes are listed in the README (Sync section)
+    token: string | null; // Sent as a bearer token when set
+}
+
+// Plain HTTP storage with the same layout as the WebDAV folder:
+//   GET    transcripts          → { items: [{ key, version }] }
+//   GET    transcripts/<key>    → SyncDocument
+//   PUT    transcripts/<key>    ← SyncDocument, → { version } (optional)
+//   GET/PUT/DELETE audio/<file> ← → raw audio
+export const createRestSyncBackend = ({ baseUrl, token }: RestSyncConfig): SyncBackend => {
+    const label = 'Sync server';
+    const base = resolveBaseUrl(baseUrl);
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+    const request = (url: string, init: RequestInit, allowStatus?: number[]) => syncRequest(url, init, { label, headers, allowStatus });
+
+    return {
+        id: 'rest',
+        label,
+        list: async () => {
+            const data = await (await request(childUrl(base, 'transcripts'), { method: 'GET' })).json();
+            if (!Array.isArray(data?.items)) throw new Error(`${label} returned an unexpected listing.`);
+            return (data.items as RemoteEntry[]).filter(item => typeof item?.key === 'string' && item.version != null)
+                .map(item => ({ key: item.key, version: String(item.version) }));
+        },
+        getDocument: async key => {
+            const res = await request(childUrl(base, 'transcripts', key), { method: 'GET' });
+            const document = (await res.json()) as SyncDocument;
+            return { document, version: res.headers.get('ETag') };
+        },
+        putDocument: async document => {
+            const res = await request(childUrl(base, 'transcripts', document.key), {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(document),
+            });
+            const data = await res.json().catch(() => null);
+            return data?.version != null ? String(data.version) : res.headers.get('ETag');
+        },
+        getAudio: async file => (await request(childUrl(base, 'audio', file), { method: 'GET' })).blob(),
+        putAudio: async (file, audio) => {
+            await request(childUrl(base, 'audio', file), {
+                method: 'PUT',
+                headers: { 'Content-Type': audio.type || 'application/octet-stream' },
+                body: audio,
+            });
+        },
+        deleteAudio: async file => {
+            await request(childUrl(base, 'audio', file), { method: 'DELETE' }, [404]);
+        },
+    };
+};
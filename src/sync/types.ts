@@ -0,0 +1,37 @@
+import type { SyncBackendId } from '../db/db';
+import type { ExportedTranscription } from '../utils/transcriptExport';
+
+export type { SyncBackendId };
+
+export const SYNC_FORMAT = 'easytranslator-sync';
+export const SYNC_VERSION = 1;
+
+// One transcript as stored on the sync server, in transcripts/<key>.json. Local ids differ per device,
+// so variant links are stored as keys. Deleted transcripts stay as tombstones (transcript null).
+export interface SyncDocument {
+    format: typeof SYNC_FORMAT;
+    version: number;
+    key: string;
+    updatedAt: number;
+    deleted: boolean;
+    variantOfKey: string | null;
+    transcript: Omit<ExportedTranscription, 'id' | 'variantOfId' | 'audioBase64'> | null; // audioFile names the audio under audio/
+}
+
+// What a listing reports per document; the version changes whenever the document does
+export interface RemoteEntry {
+    key: string;
+    version: string;
+}
+
+export interface SyncBackend {
+    readonly id: SyncBackendId;
+    readonly label: string; // Human readable, used in error messages
+    list: () => Promise<RemoteEntry[]>;
+    getDocument: (key: string) => Promise<{ document: SyncDocument; version: string | null }>;
+    // Resolves with the new version if the server reported one; the next listing fills it in otherwise
+    putDocument: (document: SyncDocument) => Promise<string | null>;
+    getAudio: (file: string) => Promise<Blob>;
+    putAudio: (file: string, audio: Blob) => Promise<void>;
+    deleteAudio: (file: string) => Promise<void>;
+}
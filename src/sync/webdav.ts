@@ -0,0 +1,96 @@
+import type { RemoteEntry, SyncBackend, SyncDocument } from './types';
+import { childUrl, resolveBaseUrl, syncRequest } from './http';
+
+export interface WebDavConfig {
+    baseUrl: string; // Folder the app may write into; transcripts/ and audio/ are created inside it
+    username: string;
+    password: string | null;
+}
+
+const PROPFIND_BODY =
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:getlastmodified/></d:prop></d:propfind>';
+
+// btoa only takes Latin-1, user names and passwords may not be
+const basicAuth = (username: string, password: string) => {
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+// Document keys and versions from a Depth: 1 PROPFIND of transcripts/. Servers without ETags
+// report getlastmodified, which changes on every write just the same.
+const readListing = (xml: string): RemoteEntry[] => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const entries: RemoteEntry[] = [];
+    for (const response of Array.from(doc.getElementsByTagNameNS('DAV:', 'response'))) {
+        const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent ?? '';
+        const name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() ?? '');
+        if (!name.endsWith('.json')) continue;
+        const etag = response.getElementsByTagNameNS('DAV:', 'getetag')[0]?.textContent?.trim();
+        const modified = response.getElementsByTagNameNS('DAV:', 'getlastmodified')[0]?.textContent?.trim();
+        const version = etag || modified;
+        if (version) entries.push({ key: name.slice(0, -'.json'.length), version });
+    }
+    return entries;
+};
+
+export const createWebDavBackend = ({ baseUrl, username, password }: WebDavConfig): SyncBackend => {
+    const label = 'WebDAV server';
+    const base = resolveBaseUrl(baseUrl);
+    const headers: Record<string, string> = username ? { Authorization: basicAuth(username, password ?? '') } : {};
+    const request = (url: string, init: RequestInit, allowStatus?: number[]) => syncRequest(url, init, { label, headers, allowStatus });
+
+    const folderUrl = (name: string) => `${childUrl(base, name)}/`;
+    const documentUrl = (key: string) => childUrl(base, 'transcripts', `${key}.json`);
+    const audioUrl = (file: string) => childUrl(base, 'audio', file);
+
+    // MKCOL answers 405 when the folder already exists
+    let foldersReady: Promise<void> | null = null;
+    const ensureFolders = () => {
+        foldersReady ??= (async () => {
+            await request(folderUrl('transcripts'), { method: 'MKCOL' }, [405]);
+            await request(folderUrl('audio'), { method: 'MKCOL' }, [405]);
+        })().catch(error => {
+            foldersReady = null;
+            throw error;
+        });
+        return foldersReady;
+    };
+
+    return {
+        id: 'webdav',
+        label,
+        list: async () => {
+            const res = await request(
+                folderUrl('transcripts'),
+                { method: 'PROPFIND', headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' }, body: PROPFIND_BODY },
+                [404]
+            );
+            // Nothing synced yet
+            if (res.status === 404) return [];
+            return readListing(await res.text());
+        },
+        getDocument: async key => {
+            const res = await request(documentUrl(key), { method: 'GET' });
+            return { document: (await res.json()) as SyncDocument, version: res.headers.get('ETag') };
+        },
+        putDocument: async document => {
+            await ensureFolders();
+            const res = await request(documentUrl(document.key), {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(document),
+            });
+            // Only readable if the server exposes ETag to scripts (Access-Control-Expose-Headers)
+            return res.headers.get('ETag');
+        },
+        getAudio: async file => (await request(audioUrl(file), { method: 'GET' })).blob(),
+        putAudio: async (file, audio) => {
+            await ensureFolders();
+            await request(audioUrl(file), { method: 'PUT', headers: { 'Content-Type': audio.type || 'application/octet-stream' }, body: audio });
+        },
+        deleteAudio: async file => {
+            await request(audioUrl(file), { method: 'DELETE' }, [404]);
+        },
+    };
+};
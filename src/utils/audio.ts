@@ -0,0 +1,46 @@
+// Helper function to convert Blob to base64
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            const base64String = reader.result as string;
+            // Remove the data URL prefix (e.g., "data:audio/webm;base64,")
+            const base64Data = base64String.split(',')[1];
+            resolve(base64Data);
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+// Recordings and the formats accepted by the audio import (see audioImport.ts), including the non-standard
+// names some systems report for them
+const AUDIO_EXTENSIONS: Record<string, string> = {
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/wave': 'wav',
+    'audio/vnd.wave': 'wav',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/m4a': 'm4a',
+    'audio/aac': 'aac',
+    'audio/x-aac': 'aac',
+    'audio/webm': 'webm',
+    'audio/ogg': 'ogg',
+    'audio/opus': 'opus',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/flac': 'flac',
+    'audio/x-flac': 'flac',
+    'audio/amr': 'amr',
+    'audio/3gpp': '3gp',
+};
+
+// File extension for a blob's MIME type (e.g. "audio/webm;codecs=opus" -> "webm"). Imported files of a type
+// not listed here (or with none) keep the extension of their original name; "bin" only if neither helps.
+export const audioExtension = (type: string, fileName?: string | null) => {
+    const known = AUDIO_EXTENSIONS[type.split(';')[0].trim().toLowerCase()];
+    if (known) return known;
+    const fromName = fileName?.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+    return fromName && /^[a-z0-9]{1,5}$/.test(fromName) ? fromName : 'bin';
+};
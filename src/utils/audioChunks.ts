@@ -0,0 +1,116 @@
+import type { TranscriptSegment } from '../db/db';
+import { normalizeForSearch } from '../db/searchWords';
+
+// Start and end of one chunk, in seconds from the start of the recording
+export interface AudioChunkRange {
+    start: number;
+    end: number;
+}
+
+// The parts of an AudioBuffer the planning helpers read; also satisfied by plain sample arrays in the audio worker
+export interface PcmSource {
+    sampleRate: number;
+    length: number; // Frames
+    duration: number; // Seconds
+    numberOfChannels: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+export const MIN_CHUNK_SECONDS = 30;
+export const CHUNK_OVERLAP_SECONDS = 1.5; // Audio repeated at the start of the next chunk so no word is cut in half
+const SILENCE_SEARCH_SECONDS = 10; // How far before the nominal cut to look for a pause
+const RMS_WINDOW_SECONDS = 0.05;
+const MAX_STITCH_WORDS = 12;
+
+// `sampleRate` resamples while decoding (e.g. 48 kHz for Opus); the device's rate otherwise
+export const decodeAudioBlob = async (blob: Blob, sampleRate?: number): Promise<AudioBuffer> => {
+    const audioContext = new AudioContext(sampleRate ? { sampleRate } : undefined);
+    try {
+        return await audioContext.decodeAudioData(await blob.arrayBuffer());
+    } finally {
+        await audioContext.close();
+    }
+};
+
+// Time (seconds) of the quietest short window between `from` and `to`, averaged over all channels
+const findQuietestPoint = (buffer: PcmSource, from: number, to: number): number => {
+    const windowSize = Math.max(1, Math.floor(RMS_WINDOW_SECONDS * buffer.sampleRate));
+    const first = Math.floor(from * buffer.sampleRate);
+    const last = Math.min(buffer.length, Math.floor(to * buffer.sampleRate)) - windowSize;
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+    let quietestOffset = Math.floor(to * buffer.sampleRate);
+    let quietestEnergy = Infinity;
+    for (let offset = first; offset <= last; offset += windowSize) {
+        let energy = 0;
+        for (const data of channels) {
+            for (let i = offset; i < offset + windowSize; i++) energy += data[i] * data[i];
+        }
+        if (energy < quietestEnergy) {
+            quietestEnergy = energy;
+            quietestOffset = offset + Math.floor(windowSize / 2);
+        }
+    }
+    return quietestOffset / buffer.sampleRate;
+};
+
+// Splits a recording (or the part of it given by `bounds`) into chunks of at most `maxChunkSeconds`,
+// cutting at the quietest point near each limit. Each chunk after the first starts CHUNK_OVERLAP_SECONDS before the previous cut.
+export const planChunks = (
+    buffer: PcmSource,
+    maxChunkSeconds: number,
+    bounds: AudioChunkRange = { start: 0, end: buffer.duration }
+): AudioChunkRange[] => {
+    const end = bounds.end;
+    if (maxChunkSeconds <= 0 || end - bounds.start <= maxChunkSeconds) return [{ ...bounds }];
+
+    const chunkSeconds = Math.max(maxChunkSeconds, MIN_CHUNK_SECONDS);
+    const ranges: AudioChunkRange[] = [];
+    let start = bounds.start;
+    while (start + chunkSeconds < end) {
+        const limit = start + chunkSeconds;
+        const searchFrom = Math.max(start + chunkSeconds / 2, limit - SILENCE_SEARCH_SECONDS);
+        const cut = findQuietestPoint(buffer, searchFrom, limit);
+        ranges.push({ start, end: cut });
+        start = cut - CHUNK_OVERLAP_SECONDS;
+    }
+    ranges.push({ start, end });
+    return ranges;
+};
+
+const comparableWord = (word: string) => normalizeForSearch(word).replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Appends `next` to `previous`, dropping words at the start of `next` that repeat the end of `previous`
+// (the overlap audio is transcribed twice). Best effort: translations of the overlap may be worded differently.
+export const stitchTexts = (previous: string, next: string): string => {
+    const nextTrimmed = next.trim();
+    if (!previous.trim()) return nextTrimmed;
+    if (!nextTrimmed) return previous;
+
+    const previousWords = previous.trim().split(/\s+/);
+    const nextWords = nextTrimmed.split(/\s+/);
+    const maxOverlap = Math.min(MAX_STITCH_WORDS, previousWords.length, nextWords.length);
+
+    for (let size = maxOverlap; size > 0; size--) {
+        const tail = previousWords.slice(-size).map(comparableWord);
+        const head = nextWords.slice(0, size).map(comparableWord);
+        if (tail.every((word, i) => word === head[i])) {
+            const rest = nextWords.slice(size).join(' ');
+            return rest ? `${previous.trim()} ${rest}` : previous.trim();
+        }
+    }
+    return `${previous.trim()} ${nextTrimmed}`;
+};
+
+// Shifts a chunk's segments to recording time and drops those already covered by the previous chunk
+export const stitchSegments = (
+    previous: TranscriptSegment[],
+    chunkSegments: TranscriptSegment[],
+    range: AudioChunkRange,
+    previousEnd: number
+): TranscriptSegment[] => {
+    const shifted = chunkSegments
+        .map(segment => ({ ...segment, start: segment.start + range.start, end: segment.end + range.start }))
+        .filter(segment => (segment.start + segment.end) / 2 >= previousEnd);
+    return [...previous, ...shifted];
+};
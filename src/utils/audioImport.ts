@@ -0,0 +1,51 @@
+// Checks for audio files picked or dropped into the app before they go through the translation pipeline
+
+export const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+export const MAX_IMPORT_SECONDS = 60 * 60;
+
+// Voice messages usually arrive as one of these; some systems leave File.type empty, hence the extensions
+const AUDIO_FILE_EXTENSIONS = ['mp3', 'm4a', 'mp4', 'aac', 'ogg', 'oga', 'opus', 'wav', 'webm', 'flac', 'amr'];
+
+// `accept` attribute for the file picker
+export const AUDIO_FILE_ACCEPT = ['audio/*', ...AUDIO_FILE_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+const isAudioFile = (file: File) => {
+    if (file.type.startsWith('audio/')) return true;
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return AUDIO_FILE_EXTENSIONS.includes(extension);
+};
+
+// Duration in seconds from the file's metadata; null if the browser cannot tell without decoding it
+const readDuration = (file: File) =>
+    new Promise<number | null>((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const audio = new Audio();
+        const finish = (done: () => void) => {
+            URL.revokeObjectURL(url);
+            audio.removeAttribute('src');
+            done();
+        };
+        audio.preload = 'metadata';
+        audio.onloadedmetadata = () => finish(() => resolve(Number.isFinite(audio.duration) ? audio.duration : null));
+        audio.onerror = () => finish(() => reject(new Error(`"${file.name}" could not be read as audio.`)));
+        audio.src = url;
+    });
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Throws an Error with a readable message if the file cannot be imported; returns its duration if known
+export const validateAudioFile = async (file: File): Promise<number | null> => {
+    if (!isAudioFile(file)) throw new Error(`"${file.name}" is not an audio file.`);
+    if (file.size === 0) throw new Error(`"${file.name}" is empty.`);
+    if (file.size > MAX_IMPORT_BYTES) {
+        throw new Error(`"${file.name}" is ${formatMegabytes(file.size)}; files up to ${formatMegabytes(MAX_IMPORT_BYTES)} can be imported.`);
+    }
+
+    const duration = await readDuration(file);
+    if (duration !== null && duration > MAX_IMPORT_SECONDS) {
+        throw new Error(
+            `"${file.name}" is ${Math.round(duration / 60)} minutes long; files up to ${MAX_IMPORT_SECONDS / 60} minutes can be imported.`
+        );
+    }
+    return duration;
+};
@@ -0,0 +1,38 @@
+import type { BackTranslation } from '../db/db';
+import { normalizeForSearch } from '../db/searchWords';
+
+// Back-translations scoring below this are flagged for review
+export const LOW_BACK_TRANSLATION_SCORE = 0.5;
+
+// Character bigrams of the text without case, accents, punctuation or spacing differences.
+// Bigrams instead of words, so languages written without spaces (ja, zh) are scored as well.
+const bigrams = (text: string) => {
+    const normalized = normalizeForSearch(text).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const counts = new Map<string, number>();
+    for (let i = 0; i < normalized.length - 1; i++) {
+        const pair = normalized.slice(i, i + 2);
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+    return counts;
+};
+
+// Dice coefficient of the bigram multisets: 1 for the same text, near 0 for unrelated ones.
+// Paraphrases score lower than a human would, so treat the score as a hint, not a verdict.
+export const similarityScore = (a: string, b: string): number => {
+    const first = bigrams(a);
+    const second = bigrams(b);
+    let total = 0;
+    let shared = 0;
+    for (const count of first.values()) total += count;
+    for (const [pair, count] of second) {
+        total += count;
+        shared += Math.min(count, first.get(pair) ?? 0);
+    }
+    return total === 0 ? 1 : (2 * shared) / total;
+};
+
+export const isLowBackTranslationScore = (entry: BackTranslation | undefined) =>
+    entry !== undefined && entry.score < LOW_BACK_TRANSLATION_SCORE;
+
+export const cloneBackTranslations = (backTranslations: Record<string, BackTranslation>) =>
+    Object.fromEntries(Object.entries(backTranslations).map(([code, entry]) => [code, { ...entry }]));
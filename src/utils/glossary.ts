@@ -0,0 +1,36 @@
+import { baseLanguage } from '../config/languages';
+import type { GlossaryMiss } from '../db/db';
+import type { GlossaryTerm } from '../providers';
+import { normalizeForSearch } from '../db/searchWords';
+
+// Case- and accent-insensitive containment, so "Tensiometre" still counts for "tensiomètre"
+const containsTerm = (text: string, term: string) => {
+    const needle = normalizeForSearch(term).trim();
+    return needle.length > 0 && normalizeForSearch(text).includes(needle);
+};
+
+// Terms that applied to this recording (source term spoken, language matches) but whose target term is
+// missing from the translation. Keyed by target code; targets that followed the glossary are left out.
+export const findGlossaryMisses = (
+    glossary: GlossaryTerm[],
+    sourceText: string,
+    sourceLang: string,
+    translations: Record<string, string>
+): Record<string, GlossaryMiss[]> => {
+    const misses: Record<string, GlossaryMiss[]> = {};
+    for (const term of glossary) {
+        if (term.sourceLang && term.sourceLang !== sourceLang) continue;
+        if (baseLanguage(term.targetLang) === sourceLang) continue; // Untranslated passthrough
+        const translation = translations[term.targetLang];
+        if (translation === undefined) continue;
+        if (!containsTerm(sourceText, term.sourceTerm)) continue;
+        if (containsTerm(translation, term.targetTerm)) continue;
+
+        (misses[term.targetLang] ??= []).push({ sourceTerm: term.sourceTerm, targetTerm: term.targetTerm });
+    }
+    return misses;
+};
+
+// Plain copy for IndexedDB (state read from Pinia is reactive)
+export const cloneGlossaryMisses = (misses: Record<string, GlossaryMiss[]>): Record<string, GlossaryMiss[]> =>
+    Object.fromEntries(Object.entries(misses).map(([code, list]) => [code, list.map(miss => ({ ...miss }))]));
@@ -0,0 +1,196 @@
+// Re-encodes saved recordings to Opus in an Ogg container with WebCodecs (AudioEncoder).
+// Browsers only hand out raw Opus packets, so the Ogg pages (RFC 7845) are written here.
+
+export const OPUS_MIME_TYPE = 'audio/ogg;codecs=opus';
+export const OPUS_SAMPLE_RATE = 48_000; // Opus always runs at 48 kHz; granule positions count at this rate
+const OPUS_BITRATE = 24_000; // Transparent enough for speech, ~3% of 48 kHz 16-bit WAV
+const DEFAULT_PRE_SKIP = 312; // libopus encoder lookahead at 48 kHz, if the encoder does not report its own
+const MAX_PAGE_SEGMENTS = 255;
+const FRAMES_PER_INPUT = OPUS_SAMPLE_RATE; // One second of audio per AudioData
+
+const encoderConfig = (numberOfChannels: number): AudioEncoderConfig => ({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels,
+    bitrate: OPUS_BITRATE,
+});
+
+export const canEncodeOpus = async (): Promise<boolean> => {
+    if (typeof AudioEncoder === 'undefined') return false;
+    try {
+        return (await AudioEncoder.isConfigSupported(encoderConfig(1))).supported === true;
+    } catch {
+        return false;
+    }
+};
+
+export const isOpusAudio = (type: string) => /opus/i.test(type);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 24;
+        for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+        table[i] = crc >>> 0;
+    }
+    return table;
+})();
+
+// Ogg uses the unreflected CRC-32 with polynomial 0x04c11db7 and no final xor
+const oggCrc = (bytes: Uint8Array) => {
+    let crc = 0;
+    for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    return crc;
+};
+
+const OGG_BOS = 0x02;
+const OGG_EOS = 0x04;
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number) => {
+    // Lacing values: 255 for every full segment, then the remainder (0 if the packet is a multiple of 255)
+    const lacing: number[] = [];
+    for (const packet of packets) {
+        for (let left = packet.length; ; left -= 255) {
+            lacing.push(Math.min(left, 255));
+            if (left < 255) break;
+        }
+    }
+    const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    view.setUint8(4, 0); // version
+    view.setUint8(5, flags);
+    view.setUint32(6, granule % 0x1_0000_0000, true);
+    view.setUint32(10, Math.floor(granule / 0x1_0000_0000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+        page.set(packet, offset);
+        offset += packet.length;
+    }
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+};
+
+const opusHead = (numberOfChannels: number, preSkip: number) => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'));
+    view.setUint8(8, 1); // version
+    view.setUint8(9, numberOfChannels);
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, OPUS_SAMPLE_RATE, true); // informational only
+    view.setInt16(16, 0, true); // output gain
+    view.setUint8(18, 0); // channel mapping family 0: mono or stereo
+    return head;
+};
+
+const opusTags = () => {
+    const vendor = new TextEncoder().encode('EasyTranslator');
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set(new TextEncoder().encode('OpusTags'));
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    view.setUint32(12 + vendor.length, 0, true); // no user comments
+    return tags;
+};
+
+interface EncodedPacket {
+    data: Uint8Array;
+    frames: number; // At 48 kHz
+}
+
+// Encoders that describe their stream (Chromium) do so with an OpusHead, which holds the real pre-skip
+const preSkipOf = (description: AllowSharedBufferSource | undefined) => {
+    if (!description) return null;
+    const bytes = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+        : new Uint8Array(description);
+    if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+    return bytes[10] | (bytes[11] << 8);
+};
+
+const encodePackets = async (channels: Float32Array[]) => {
+    const packets: EncodedPacket[] = [];
+    let preSkip = DEFAULT_PRE_SKIP;
+    let failure: unknown = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            preSkip = preSkipOf(metadata?.decoderConfig?.description) ?? preSkip;
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            // 20 ms frames unless the encoder says otherwise
+            packets.push({ data, frames: Math.round(((chunk.duration ?? 20_000) * OPUS_SAMPLE_RATE) / 1_000_000) });
+        },
+        error: error => {
+            failure = error;
+        },
+    });
+    encoder.configure(encoderConfig(channels.length));
+
+    const length = channels[0].length;
+    for (let start = 0; start < length; start += FRAMES_PER_INPUT) {
+        const frames = Math.min(FRAMES_PER_INPUT, length - start);
+        // f32-planar: the channels one after another
+        const planar = new Float32Array(frames * channels.length);
+        channels.forEach((data, index) => planar.set(data.subarray(start, start + frames), index * frames));
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate: OPUS_SAMPLE_RATE,
+            numberOfFrames: frames,
+            numberOfChannels: channels.length,
+            timestamp: Math.round((start * 1_000_000) / OPUS_SAMPLE_RATE),
+            data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+    return { packets, preSkip };
+};
+
+// `buffer` must be decoded at 48 kHz (see decodeAudioBlob). Speech gains nothing from stereo, so it is downmixed.
+export const encodeOpus = async (buffer: AudioBuffer): Promise<Blob> => {
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    const { packets, preSkip } = await encodePackets([mono]);
+
+    const serial = (Math.random() * 0x1_0000_0000) >>> 0;
+    const pages: Uint8Array[] = [
+        oggPage([opusHead(1, preSkip)], 0, serial, 0, OGG_BOS),
+        oggPage([opusTags()], 0, serial, 1, 0),
+    ];
+
+    // Granule positions count decoded samples including the pre-skip. The last one marks the real end,
+    // so decoders drop the encoder's padding.
+    const endGranule = preSkip + buffer.length;
+    let granule = 0;
+    let pagePackets: Uint8Array[] = [];
+    let segments = 0;
+    for (const { data, frames } of packets) {
+        const needed = Math.floor(data.length / 255) + 1;
+        if (segments + needed > MAX_PAGE_SEGMENTS) {
+            pages.push(oggPage(pagePackets, Math.min(granule, endGranule), serial, pages.length, 0));
+            pagePackets = [];
+            segments = 0;
+        }
+        pagePackets.push(data);
+        segments += needed;
+        granule += frames;
+    }
+    pages.push(oggPage(pagePackets, endGranule, serial, pages.length, OGG_EOS));
+
+    return new Blob(pages as Uint8Array<ArrayBuffer>[], { type: OPUS_MIME_TYPE });
+};
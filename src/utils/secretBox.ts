@@ -0,0 +1,62 @@
+import type { EncryptedSecret } from '../db/db';
+
+// Passphrase encryption for secrets kept in IndexedDB: PBKDF2-SHA-256 derives an AES-GCM key from the passphrase.
+// The derived key is non-extractable, so the settings store can keep it in memory while unlocked and
+// re-encrypt a changed secret without asking for the passphrase again.
+
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // Recommended nonce length for AES-GCM
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export interface SecretKey {
+    key: CryptoKey;
+    salt: string; // Base64, stored next to the ciphertext
+    iterations: number;
+}
+
+export const deriveSecretKey = async (
+    passphrase: string,
+    salt: string = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+    iterations: number = PBKDF2_ITERATIONS
+): Promise<SecretKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+    return { key, salt, iterations };
+};
+
+// Every call uses a fresh IV, so the same key can seal several values
+export const sealSecret = async (plaintext: string, secretKey: SecretKey): Promise<EncryptedSecret> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, secretKey.key, new TextEncoder().encode(plaintext));
+    return {
+        salt: secretKey.salt,
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+        iterations: secretKey.iterations,
+    };
+};
+
+// Rejects (DOMException 'OperationError') when the key was derived from the wrong passphrase
+export const openSecret = async (secret: EncryptedSecret, secretKey: SecretKey): Promise<string> => {
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+        secretKey.key,
+        fromBase64(secret.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+};
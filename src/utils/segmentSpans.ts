@@ -0,0 +1,44 @@
+import type { TranscriptSegment } from '../db/db';
+
+// A stretch of the displayed source text and the segment whose audio it belongs to
+export interface TimedSpan {
+    text: string;
+    segmentIndex: number;
+}
+
+// CJK scripts are written without spaces, so each character counts as a word there
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+const weightOf = (text: string) => text.replace(/\s+/g, '').length;
+
+// Splits `text` into spans that follow the segments. The segment texts come from the timestamp request and may
+// word things slightly differently from `text`, so the words are matched by position, not by content: a word
+// belongs to the segment that covers the same share of the whole text (counted in characters).
+// The spans always add up to `text`; without segments there are none.
+export const alignSegments = (text: string, segments: TranscriptSegment[]): TimedSpan[] => {
+    const total = weightOf(text);
+    const segmentTotal = segments.reduce((sum, segment) => sum + weightOf(segment.text), 0);
+    if (total === 0 || segmentTotal === 0) return [];
+
+    // Share of the text at which each segment ends
+    let covered = 0;
+    const ends = segments.map(segment => (covered += weightOf(segment.text)) / segmentTotal);
+
+    const spans: TimedSpan[] = [];
+    let done = 0;
+    let spanStart = 0;
+    let segmentIndex = 0;
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const middle = (done + match[0].length / 2) / total;
+        done += match[0].length;
+        let index = segmentIndex;
+        while (index < ends.length - 1 && middle > ends[index]) index++;
+        if (index !== segmentIndex && match.index! > spanStart) {
+            spans.push({ text: text.slice(spanStart, match.index), segmentIndex });
+            spanStart = match.index!;
+        }
+        segmentIndex = index;
+    }
+    spans.push({ text: text.slice(spanStart), segmentIndex });
+    return spans;
+};
@@ -0,0 +1,126 @@
+import { planChunks, type AudioChunkRange, type PcmSource } from './audioChunks';
+import { findSpeechRange } from './voiceActivity';
+
+// Framework-free upload pipeline, run inside the audio worker (see ../workers/speechAudio.worker.ts):
+// downmix to mono, resample to 16 kHz, trim silence, plan chunks, encode 16-bit WAV and base64.
+
+export const SPEECH_SAMPLE_RATE = 16_000; // Plenty for speech recognition, a third of the usual 48 kHz
+
+export interface PrepareUploadRequest {
+    channels: Float32Array[]; // Decoded recording, one array per channel
+    sampleRate: number;
+    maxChunkSeconds: number;
+    trimThresholdDb: number | null; // null keeps leading and trailing silence
+}
+
+export interface PreparedChunk {
+    range: AudioChunkRange; // Seconds in the original recording
+    wav: ArrayBuffer; // Mono 16 kHz, 16-bit PCM
+    base64: string;
+    nativeBase64Bytes: number; // What the same range would have cost as native-rate WAV, for the usage page
+}
+
+export interface PreparedUpload {
+    duration: number;
+    isTrimmed: boolean;
+    chunks: PreparedChunk[];
+}
+
+const downmixToMono = (channels: Float32Array[]): Float32Array => {
+    if (channels.length === 1) return channels[0];
+    const mono = new Float32Array(channels[0].length);
+    for (const data of channels) {
+        for (let i = 0; i < mono.length; i++) mono[i] += data[i] / channels.length;
+    }
+    return mono;
+};
+
+// Box-filter resampling: every output sample averages the input samples it covers,
+// which also removes most content above the new Nyquist frequency
+const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+    if (fromRate <= toRate) return samples;
+    const ratio = fromRate / toRate;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const from = Math.floor(i * ratio);
+        const to = Math.min(samples.length, Math.max(from + 1, Math.floor((i + 1) * ratio)));
+        let sum = 0;
+        for (let j = from; j < to; j++) sum += samples[j];
+        output[i] = sum / (to - from);
+    }
+    return output;
+};
+
+const monoSource = (samples: Float32Array, sampleRate: number): PcmSource => ({
+    sampleRate,
+    length: samples.length,
+    duration: samples.length / sampleRate,
+    numberOfChannels: 1,
+    getChannelData: () => samples,
+});
+
+const wavByteLength = (frames: number, channels: number) => 44 + frames * channels * 2;
+const base64Length = (bytes: number) => Math.ceil(bytes / 3) * 4;
+
+export const encodeMonoWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+    const buffer = new ArrayBuffer(wavByteLength(samples.length, 1));
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, buffer.byteLength - 8, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk length
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+    return buffer;
+};
+
+// btoa needs a binary string; build it in slices so long recordings do not overflow the argument list
+export const bytesToBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    const parts: string[] = [];
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        parts.push(String.fromCharCode(...bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(parts.join(''));
+};
+
+export const prepareUpload = (request: PrepareUploadRequest): PreparedUpload => {
+    const samples = resample(downmixToMono(request.channels), request.sampleRate, SPEECH_SAMPLE_RATE);
+    const sampleRate = Math.min(request.sampleRate, SPEECH_SAMPLE_RATE);
+    const source = monoSource(samples, sampleRate);
+
+    const speech = request.trimThresholdDb === null ? null : findSpeechRange(source, request.trimThresholdDb);
+    const isTrimmed = speech !== null && (speech.start > 0 || speech.end < source.duration);
+    const ranges = planChunks(source, request.maxChunkSeconds, isTrimmed ? speech : undefined);
+
+    const chunks = ranges.map(range => {
+        const from = Math.floor(range.start * sampleRate);
+        const to = Math.min(samples.length, Math.ceil(range.end * sampleRate));
+        const wav = encodeMonoWav(samples.subarray(from, Math.max(from + 1, to)), sampleRate);
+        const nativeFrames = Math.round((range.end - range.start) * request.sampleRate);
+        return {
+            range,
+            wav,
+            base64: bytesToBase64(wav),
+            nativeBase64Bytes: base64Length(wavByteLength(nativeFrames, request.channels.length)),
+        };
+    });
+
+    return { duration: source.duration, isTrimmed, chunks };
+};
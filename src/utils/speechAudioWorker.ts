@@ -0,0 +1,45 @@
+import { prepareUpload, type PrepareUploadRequest, type PreparedUpload } from './speechAudio';
+
+type WorkerReply = { id: number; result?: PreparedUpload; error?: string };
+
+// One worker for the whole app, started on first use
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (result: PreparedUpload) => void; reject: (error: Error) => void }>();
+
+const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('../workers/speechAudio.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+        const { id, result, error } = event.data;
+        const request = pending.get(id);
+        if (!request) return;
+        pending.delete(id);
+        if (result) request.resolve(result);
+        else request.reject(new Error(`Audio encoding failed: ${error}`));
+    };
+    // A crashed worker fails everything in flight; the next request starts a new one
+    worker.onerror = (event) => {
+        console.error('Audio worker error:', event);
+        for (const request of pending.values()) request.reject(new Error('Audio encoding failed.'));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+// Encodes a decoded recording for upload without blocking the UI.
+// The channel arrays are transferred to the worker and cannot be used afterwards.
+export const prepareUploadInWorker = (request: PrepareUploadRequest): Promise<PreparedUpload> => {
+    if (typeof Worker === 'undefined') return Promise.resolve(prepareUpload(request));
+
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        getWorker().postMessage(
+            { id, request },
+            request.channels.map(channel => channel.buffer)
+        );
+    });
+};
@@ -0,0 +1,152 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Transcription } from '../db/db';
+import { audioExtension, blobToBase64 } from './audio';
+
+export const EXPORT_FORMAT = 'easytranslator-transcripts';
+export const EXPORT_VERSION = 1;
+
+// One transcript as written to JSON/ZIP bundles. `id`/`variantOfId` are the ids on the exporting device;
+// they are only used to rebuild variant links on import.
+export interface ExportedTranscription extends Omit<Transcription, 'audioBlob'> {
+    audioType: string;
+    audioBase64?: string; // JSON bundles embed the audio
+    audioFile?: string; // ZIP bundles reference a file inside the archive
+}
+
+export interface TranscriptBundle {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    items: ExportedTranscription[];
+}
+
+// Also the body of the documents written by sync (see ../sync/document.ts)
+export const toMeta = (item: Transcription): ExportedTranscription => {
+    // searchWords is derived data; the importing database rebuilds it
+    const { audioBlob, searchWords: _searchWords, ...rest } = item;
+    return { ...rest, audioType: audioBlob?.type || '' };
+};
+
+const bundleOf = (items: ExportedTranscription[]): TranscriptBundle => ({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    items,
+});
+
+export const exportAsJson = async (items: Transcription[]): Promise<Blob> => {
+    const exported: ExportedTranscription[] = [];
+    for (const item of items) {
+        exported.push({
+            ...toMeta(item),
+            audioBase64: item.audioBlob ? await blobToBase64(item.audioBlob) : undefined,
+        });
+    }
+    return new Blob([JSON.stringify(bundleOf(exported), null, 2)], { type: 'application/json' });
+};
+
+const csvCell = (value: string | number | null | undefined) => {
+    const text = value == null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per transcript, one column per target language used anywhere in the export
+export const exportAsCsv = (items: Transcription[]): Blob => {
+    const codes: string[] = [];
+    for (const item of items) {
+        for (const code of item.targetCodes) {
+            if (!codes.includes(code)) codes.push(code);
+        }
+    }
+
+    const header = ['id', 'createdAt', 'variantGroupId', 'variantOfId', 'sourceLang', 'sourceText', ...codes];
+    const rows = items.map(item => [
+        item.id ?? '',
+        new Date(item.createdAt).toISOString(),
+        item.variantGroupId,
+        item.variantOfId ?? '',
+        item.sourceLang,
+        item.sourceText,
+        ...codes.map(code => item.translations[code] ?? ''),
+    ]);
+
+    const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+    // BOM so spreadsheet apps detect UTF-8
+    return new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+};
+
+export const exportAsZip = async (items: Transcription[]): Promise<Blob> => {
+    const files: Record<string, Uint8Array> = {};
+    const exported: ExportedTranscription[] = [];
+
+    for (const item of items) {
+        const meta = toMeta(item);
+        if (item.audioBlob) {
+            const name = `audio/${item.variantGroupId}-${item.createdAt}.${audioExtension(meta.audioType, item.sourceFileName)}`;
+            files[name] = new Uint8Array(await item.audioBlob.arrayBuffer());
+            meta.audioFile = name;
+        }
+        exported.push(meta);
+    }
+
+    files['transcripts.json'] = strToU8(JSON.stringify(bundleOf(exported), null, 2));
+    // Audio is already compressed (or large WAV); level 0 keeps zipping fast
+    const zipped = zipSync(files, { level: 0 });
+    return new Blob([zipped as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
+};
+
+const base64ToBlob = (base64: string, type: string) => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+};
+
+const assertBundle = (data: any): TranscriptBundle => {
+    if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.items)) {
+        throw new Error('This file is not an EasyTranslator transcript export.');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error('This export was created by a newer version of the app.');
+    }
+    return data as TranscriptBundle;
+};
+
+// Parses a JSON or ZIP export into transcripts. Ids are the exporting device's ids.
+export const readTranscriptBundle = async (file: File): Promise<Transcription[]> => {
+    const isZip = file.type === 'application/zip' || file.name.toLowerCase().endsWith('.zip');
+
+    if (isZip) {
+        const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+        const manifest = entries['transcripts.json'];
+        if (!manifest) throw new Error('The ZIP file does not contain transcripts.json.');
+        const bundle = assertBundle(JSON.parse(strFromU8(manifest)));
+
+        return bundle.items.map(({ audioFile, audioBase64, audioType, ...rest }) => {
+            const bytes = audioFile ? entries[audioFile] : undefined;
+            const audioBlob = bytes
+                ? new Blob([bytes as Uint8Array<ArrayBuffer>], { type: audioType })
+                : audioBase64
+                  ? base64ToBlob(audioBase64, audioType)
+                  : null;
+            // Typed-text transcripts have no audio
+            return audioBlob ? { ...rest, audioBlob } : rest;
+        });
+    }
+
+    const bundle = assertBundle(JSON.parse(await file.text()));
+    return bundle.items.map(({ audioFile: _audioFile, audioBase64, audioType, ...rest }) =>
+        audioBase64 ? { ...rest, audioBlob: base64ToBlob(audioBase64, audioType) } : rest
+    );
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
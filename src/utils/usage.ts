@@ -0,0 +1,45 @@
+import type { ModelPrice, UsageRecord } from '../db/db';
+
+export interface UsageNumbers {
+    audioSeconds: number | null;
+    promptTokens: number | null;
+    completionTokens: number | null;
+    totalTokens: number | null;
+}
+
+const numberOrNull = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+// Providers name the same counters differently; this reads the variants we have seen
+export const readUsageNumbers = (usage: any | null): UsageNumbers => {
+    if (!usage || typeof usage !== 'object') {
+        return { audioSeconds: null, promptTokens: null, completionTokens: null, totalTokens: null };
+    }
+    return {
+        audioSeconds: numberOrNull(usage.prompt_audio_seconds ?? usage.audio_seconds ?? usage.prompt_audio_duration_seconds),
+        promptTokens: numberOrNull(usage.prompt_tokens),
+        completionTokens: numberOrNull(usage.completion_tokens),
+        totalTokens: numberOrNull(usage.total_tokens),
+    };
+};
+
+// Estimated cost in USD, or null when the model has no price entry
+export const estimateCost = (
+    record: Pick<UsageRecord, 'model' | 'audioSeconds' | 'promptTokens' | 'completionTokens'>,
+    priceTable: Record<string, ModelPrice>
+): number | null => {
+    const price = priceTable[record.model];
+    if (!price) return null;
+    return (
+        ((record.audioSeconds ?? 0) / 60) * price.perAudioMinute +
+        ((record.promptTokens ?? 0) / 1_000_000) * price.perMillionPromptTokens +
+        ((record.completionTokens ?? 0) / 1_000_000) * price.perMillionCompletionTokens
+    );
+};
+
+export const formatCost = (value: number) =>
+    new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: value > 0 && value < 0.01 ? 4 : 2,
+    }).format(value);
@@ -0,0 +1,83 @@
+import type { AudioChunkRange, PcmSource } from './audioChunks';
+
+export const DEFAULT_SPEECH_THRESHOLD_DB = -45;
+export const MIN_SPEECH_THRESHOLD_DB = -70;
+export const MAX_SPEECH_THRESHOLD_DB = -15;
+const CALIBRATION_MARGIN_DB = 10; // Speech must be this much louder than the measured room noise
+const SILENT_DB = -100; // Floor for digital silence, where the logarithm would be -Infinity
+
+const TRIM_WINDOW_SECONDS = 0.02;
+const MIN_SPEECH_WINDOWS = 3; // Consecutive loud windows needed, so a click is not taken for speech
+const TRIM_PADDING_SECONDS = 0.3; // Kept around the detected speech so soft word edges survive
+
+// RMS level of a block of samples in dBFS (0 = full scale)
+export const rmsDb = (samples: Float32Array, from = 0, to = samples.length): number => {
+    if (to <= from) return SILENT_DB;
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / (to - from));
+    return rms > 0 ? Math.max(SILENT_DB, 20 * Math.log10(rms)) : SILENT_DB;
+};
+
+// Span of a recording that contains speech, with a little padding; null if nothing reaches the threshold
+export const findSpeechRange = (buffer: PcmSource, thresholdDb: number): AudioChunkRange | null => {
+    const windowSize = Math.max(1, Math.floor(TRIM_WINDOW_SECONDS * buffer.sampleRate));
+    const windowCount = Math.ceil(buffer.length / windowSize);
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+    const isLoud = (index: number) => {
+        const from = index * windowSize;
+        const to = Math.min(buffer.length, from + windowSize);
+        return channels.some(data => rmsDb(data, from, to) >= thresholdDb);
+    };
+
+    // First window of a run of MIN_SPEECH_WINDOWS loud windows, searching in `step` direction
+    const findRun = (start: number, step: 1 | -1) => {
+        let run = 0;
+        for (let index = start; index >= 0 && index < windowCount; index += step) {
+            run = isLoud(index) ? run + 1 : 0;
+            if (run >= MIN_SPEECH_WINDOWS) return index - step * (MIN_SPEECH_WINDOWS - 1);
+        }
+        return -1;
+    };
+
+    const first = findRun(0, 1);
+    if (first < 0) return null;
+    const last = findRun(windowCount - 1, -1);
+
+    const start = Math.max(0, (first * windowSize) / buffer.sampleRate - TRIM_PADDING_SECONDS);
+    const end = Math.min(buffer.duration, ((last + 1) * windowSize) / buffer.sampleRate + TRIM_PADDING_SECONDS);
+    return { start, end };
+};
+
+// Suggested speech threshold for a measured noise floor
+export const thresholdFromNoiseFloor = (noiseFloorDb: number) =>
+    Math.round(Math.min(MAX_SPEECH_THRESHOLD_DB, Math.max(MIN_SPEECH_THRESHOLD_DB, noiseFloorDb + CALIBRATION_MARGIN_DB)));
+
+// Listens to the microphone for `durationMs` and returns the room noise level in dBFS.
+// Uses the 90th percentile of short readings, so a single cough does not raise the result much.
+export const measureNoiseFloor = async (durationMs = 2000): Promise<number> => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const audioContext = new AudioContext();
+    try {
+        if (audioContext.state === 'suspended') await audioContext.resume();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+
+        const samples = new Float32Array(analyser.fftSize);
+        const readings: number[] = [];
+        const startedAt = performance.now();
+        while (performance.now() - startedAt < durationMs) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            analyser.getFloatTimeDomainData(samples);
+            readings.push(rmsDb(samples));
+        }
+
+        readings.sort((a, b) => a - b);
+        return readings[Math.floor(readings.length * 0.9)] ?? SILENT_DB;
+    } finally {
+        stream.getTracks().forEach(track => track.stop());
+        await audioContext.close();
+    }
+};
@@ -0,0 +1,12 @@
+import { prepareUpload, type PrepareUploadRequest } from '../utils/speechAudio';
+
+// Runs the upload encoding off the main thread; see ../utils/speechAudioWorker.ts for the calling side
+self.onmessage = (event: MessageEvent<{ id: number; request: PrepareUploadRequest }>) => {
+    const { id, request } = event.data;
+    try {
+        const result = prepareUpload(request);
+        self.postMessage({ id, result }, { transfer: result.chunks.map(chunk => chunk.wav) });
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -34,5 +34,18 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src')
     }
-  }
+  },
+  // Lets sync be tried against a local WebDAV server without setting up CORS there,
+  // e.g. SYNC_DEV_PROXY=http://127.0.0.1:8081 npm run dev, then use /dav/ as the sync URL
+  server: process.env.SYNC_DEV_PROXY
+    ? {
+        proxy: {
+          '/dav': {
+            target: process.env.SYNC_DEV_PROXY,
+            changeOrigin: true,
+            rewrite: (requestPath) => requestPath.replace(/^\/dav/, '')
+          }
+        }
+      }
+    : undefined
 })